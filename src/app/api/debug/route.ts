@@ -5,6 +5,8 @@ export async function GET(request: NextRequest) {
   try {
     console.log('Debug API called');
     
+    const schema = await databaseService.getSchemaVersion();
+
     // Get all files
     const files = await databaseService.getAllFiles();
     console.log('Files found:', files.length);
@@ -13,12 +15,14 @@ export async function GET(request: NextRequest) {
     let sampleData = null;
     if (files.length > 0) {
       const firstFile = files[0];
-      sampleData = await databaseService.getFileData(firstFile.id);
-      console.log('Sample data for first file:', sampleData.length, 'rows');
+      const page = await databaseService.getFileRows(firstFile.id, { limit: 2 });
+      sampleData = page.rows;
+      console.log('Sample data for first file:', page.total, 'rows');
     }
     
     return NextResponse.json({
       success: true,
+      schema,
       files: files.map(f => ({
         id: f.id,
         name: f.fileName,
@@ -26,7 +30,7 @@ export async function GET(request: NextRequest) {
         columns: f.columns,
         uploadDate: f.uploadDate
       })),
-      sampleData: sampleData ? sampleData.slice(0, 2) : null
+      sampleData
     });
   } catch (error) {
     console.error('Debug API error:', error);
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Files shown in the page rather than downloaded: recordings and raster
+// images. Anything else served inline from this origin could run script.
+const INLINE_TYPES = /^(audio\/[\w.+-]+|image\/(png|jpeg|gif|webp|bmp|avif))$/;
+// Types the uploader's word is not taken for, as browsers would run them
+const ACTIVE_TYPES = /^(text\/html|application\/xhtml\+xml|image\/svg\+xml|text\/xml|application\/xml)$/;
+
+/**
+ * The file kept with an entry, such as a voice note's recording.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const file = await databaseService.getEntryFile(id);
+    if (!file) {
+      return NextResponse.json({ error: 'Entry file not found' }, { status: 404 });
+    }
+
+    const fileName = file.fileName.replace(/["\\\r\n]/g, '_');
+    const mimeType = file.mimeType.split(';')[0].trim().toLowerCase();
+    const inline = INLINE_TYPES.test(mimeType);
+    return new NextResponse(new Uint8Array(file.content), {
+      headers: {
+        'Content-Type': ACTIVE_TYPES.test(mimeType) || !mimeType ? 'application/octet-stream' : file.mimeType,
+        'Content-Length': String(file.content.length),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${fileName}"`,
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching entry file:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch entry file' },
+      { status: 500 }
+    );
+  }
+}
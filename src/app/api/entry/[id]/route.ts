@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService, EntryUpdate } from '@/lib/database';
+import { ENTRY_SOURCES, ENTRY_TYPES } from '@/lib/entryModel';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// fileUrl is not editable: it points to the entry's stored file, served by /api/entry/[id]/file
+const EDITABLE_FIELDS = ['type', 'source', 'content', 'metadata', 'timestamp'] as const;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const entry = await databaseService.getEntry(id);
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error fetching entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: 'The request body must be a JSON object' }, { status: 400 });
+    }
+
+    if (body.fileUrl !== undefined) {
+      return NextResponse.json({ error: 'fileUrl cannot be changed' }, { status: 400 });
+    }
+
+    const updates: EntryUpdate = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) {
+        (updates as Record<string, unknown>)[field] = body[field];
+      }
+    }
+    if (updates.content !== undefined && typeof updates.content !== 'string') {
+      return NextResponse.json({ error: 'Invalid content' }, { status: 400 });
+    }
+    if (updates.type !== undefined && !ENTRY_TYPES.includes(updates.type)) {
+      return NextResponse.json({ error: `Invalid type; use one of ${ENTRY_TYPES.join(', ')}` }, { status: 400 });
+    }
+    if (updates.source !== undefined && !ENTRY_SOURCES.includes(updates.source)) {
+      return NextResponse.json({ error: `Invalid source; use one of ${ENTRY_SOURCES.join(', ')}` }, { status: 400 });
+    }
+
+    if (updates.metadata !== undefined
+        && (typeof updates.metadata !== 'object' || updates.metadata === null || Array.isArray(updates.metadata))) {
+      return NextResponse.json({ error: 'Invalid metadata; it must be an object' }, { status: 400 });
+    }
+    if (updates.timestamp !== undefined) {
+      // Entries are listed in timestamp order, so it is stored in one ISO 8601 form
+      const timestamp = typeof updates.timestamp === 'string' && ISO_DATE.test(updates.timestamp)
+        ? new Date(updates.timestamp) : null;
+      if (!timestamp || isNaN(timestamp.getTime())) {
+        return NextResponse.json({ error: 'Invalid timestamp; use an ISO 8601 date' }, { status: 400 });
+      }
+      updates.timestamp = timestamp.toISOString();
+    }
+
+    const entry = await databaseService.updateEntry(id, updates);
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Error updating entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await databaseService.deleteEntry(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete entry' },
+      { status: 500 }
+    );
+  }
+}
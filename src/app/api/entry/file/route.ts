@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UnifiedEntry } from '@/lib/entryModel';
 import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '@/lib/database';
 
+// Files are kept in the database with their entry
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Save a file as an entry. The file is kept with the entry and served
+ * from its fileUrl.
+ */
 export async function POST(req: NextRequest) {
   const formData = await req.formData();
   const file = formData.get('file') as File | null;
@@ -9,24 +17,39 @@ export async function POST(req: NextRequest) {
   if (!file) {
     return NextResponse.json({ error: 'Missing file' }, { status: 400 });
   }
-  // For now, we won't actually store the file, just mock the entry
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json(
+      { error: `Files over ${MAX_FILE_BYTES / (1024 * 1024)}MB are not supported` },
+      { status: 413 }
+    );
+  }
+
+  const id = uuidv4();
   const now = new Date().toISOString();
   const entry: UnifiedEntry = {
-    id: uuidv4(),
+    id,
     userId,
     type: 'file',
     source: 'upload',
-    content: file.name, // In real use, extract text or summary
-    fileUrl: null, // In real use, store and provide URL
+    content: file.name,
+    fileUrl: `/api/entry/${id}/file`,
     metadata: {
       filename: file.name,
       mimetype: file.type,
-      // Add more as needed
     },
     timestamp: now,
     createdAt: now,
     updatedAt: now,
   };
-  // TODO: Store in DB and handle file storage
+  try {
+    await databaseService.saveEntry(entry, {
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      content: Buffer.from(await file.arrayBuffer())
+    });
+  } catch (error) {
+    console.error('Error saving entry:', error);
+    return NextResponse.json({ error: 'Failed to save entry' }, { status: 500 });
+  }
   return NextResponse.json({ success: true, entry });
-} 
\ No newline at end of file
+}
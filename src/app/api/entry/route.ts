@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+import { EntrySource, EntryType } from '@/lib/entryModel';
+
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const limit = params.get('limit');
+    const offset = params.get('offset');
+
+    const entries = await databaseService.getEntries({
+      userId: params.get('userId') || undefined,
+      type: (params.get('type') as EntryType) || undefined,
+      source: (params.get('source') as EntrySource) || undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch entries' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { UnifiedEntry } from '@/lib/entryModel';
 import { v4 as uuidv4 } from 'uuid';
 import { NLPProcessor } from '@/lib/nlpProcessor';
+import { databaseService } from '@/lib/database';
 
 export async function POST(req: NextRequest) {
   const { userId = 'demo-user', text } = await req.json();
@@ -22,16 +23,19 @@ export async function POST(req: NextRequest) {
     updatedAt: now,
   };
   // Use NLPProcessor to generate a natural language response
+  let aiResponse = 'Entry received! (AI feedback unavailable)';
   try {
     const nlpResult = await NLPProcessor.processText(text);
-    // Compose a natural language response (summary + first insight + first recommendation)
-    let aiResponse = `Here's what I understood: `;
-    if (nlpResult.domain) aiResponse += `Domain: ${nlpResult.domain}. `;
-    if (nlpResult.insights && nlpResult.insights.length > 0) aiResponse += `Insight: ${nlpResult.insights[0]}. `;
-    if (nlpResult.recommendations && nlpResult.recommendations.length > 0) aiResponse += `Recommendation: ${nlpResult.recommendations[0]}`;
-    if (aiResponse === `Here's what I understood: `) aiResponse += 'Entry received!';
-    return NextResponse.json({ success: true, entry, aiResponse });
+    entry.metadata = { extractedData: nlpResult };
+    aiResponse = NLPProcessor.summarize(nlpResult);
   } catch (error) {
-    return NextResponse.json({ success: true, entry, aiResponse: 'Entry received! (AI feedback unavailable)' });
+    console.error('NLP processing error:', error);
   }
+  try {
+    await databaseService.saveEntry(entry);
+  } catch (error) {
+    console.error('Error saving entry:', error);
+    return NextResponse.json({ error: 'Failed to save entry' }, { status: 500 });
+  }
+  return NextResponse.json({ success: true, entry, aiResponse });
 } 
\ No newline at end of file
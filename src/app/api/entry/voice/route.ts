@@ -1,7 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UnifiedEntry } from '@/lib/entryModel';
 import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '@/lib/database';
+import { NLPProcessor } from '@/lib/nlpProcessor';
+import { getTranscriber, Transcription } from '@/lib/transcriber';
 
+// Voice notes are transcribed in one go, so recordings are kept short
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Save a voice note: transcribe the recording, keep it with the entry
+ * (served from the entry's fileUrl), and run NLP on the transcript as for
+ * text entries.
+ */
 export async function POST(req: NextRequest) {
   const formData = await req.formData();
   const file = formData.get('audio') as File | null;
@@ -9,25 +20,73 @@ export async function POST(req: NextRequest) {
   if (!file) {
     return NextResponse.json({ error: 'Missing audio file' }, { status: 400 });
   }
-  // In real use, run speech-to-text here
-  const transcript = 'Transcribed text (stub)';
+  if (file.size === 0) {
+    return NextResponse.json({ error: 'The recording is empty' }, { status: 400 });
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    return NextResponse.json(
+      { error: `Recordings over ${MAX_AUDIO_BYTES / (1024 * 1024)}MB are not supported` },
+      { status: 413 }
+    );
+  }
+
+  const audio = Buffer.from(await file.arrayBuffer());
+  let transcriberName: string;
+  let transcription: Transcription;
+  try {
+    const transcriber = getTranscriber();
+    transcriberName = transcriber.name;
+    transcription = await transcriber.transcribe(audio, file.name);
+    console.log(`Voice note transcribed by ${transcriber.name}: ${transcription.words.length} words, ${transcription.duration ?? '?'}s`);
+  } catch (error) {
+    console.error('Transcription error:', error);
+    return NextResponse.json(
+      { error: `Failed to transcribe audio: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+  if (transcription.text === '') {
+    return NextResponse.json({ error: 'No speech was recognized in the recording' }, { status: 400 });
+  }
+
+  const id = uuidv4();
   const now = new Date().toISOString();
   const entry: UnifiedEntry = {
-    id: uuidv4(),
+    id,
     userId,
     type: 'voice',
     source: 'upload',
-    content: transcript,
-    fileUrl: null, // In real use, store and provide URL
+    content: transcription.text,
+    fileUrl: `/api/entry/${id}/file`,
     metadata: {
       filename: file.name,
       mimetype: file.type,
-      // Add more as needed
+      duration: transcription.duration,
+      words: transcription.words,
+      language: transcription.language,
+      transcriber: transcriberName,
     },
     timestamp: now,
     createdAt: now,
     updatedAt: now,
   };
-  // TODO: Store in DB and handle file storage
-  return NextResponse.json({ success: true, entry });
-} 
\ No newline at end of file
+  let aiResponse = 'Voice note received! (AI feedback unavailable)';
+  try {
+    const nlpResult = await NLPProcessor.processText(transcription.text);
+    entry.metadata = { ...entry.metadata, extractedData: nlpResult };
+    aiResponse = NLPProcessor.summarize(nlpResult);
+  } catch (error) {
+    console.error('NLP processing error:', error);
+  }
+  try {
+    await databaseService.saveEntry(entry, {
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      content: audio
+    });
+  } catch (error) {
+    console.error('Error saving entry:', error);
+    return NextResponse.json({ error: 'Failed to save entry' }, { status: 500 });
+  }
+  return NextResponse.json({ success: true, entry, aiResponse });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Papa from 'papaparse';
+import { databaseService } from '@/lib/database';
+import { MAX_ROW_ERRORS } from '@/lib/csvRows';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Rows that a tolerant upload left out of the dataset, with their line,
+ * error code and text. Defaults to the upload that made the current
+ * version (?version=N for another); ?format=csv downloads all of them.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = req.nextUrl.searchParams;
+
+    const file = await databaseService.getFileMetadata(id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const version = parseInt(searchParams.get('version') || String(file.currentVersion), 10);
+    if (isNaN(version) || version < 1 || version > file.currentVersion) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const { errors } = await databaseService.getRowErrors(id, version, { limit: MAX_ROW_ERRORS });
+      const csv = Papa.unparse({ fields: ['line', 'code', 'message', 'raw'], data: errors.map(error => [error.line, error.code, error.message, error.raw]) });
+      const baseName = file.fileName.replace(/\.[^.]*$/, '').replace(/["\\\r\n]/g, '_');
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${baseName}-rejected-rows-v${version}.csv"`
+        }
+      });
+    }
+
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    const limit = parseInt(searchParams.get('limit') || '100', 10);
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json({ error: 'Invalid offset' }, { status: 400 });
+    }
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` }, { status: 400 });
+    }
+
+    const page = await databaseService.getRowErrors(id, version, { offset, limit });
+    return NextResponse.json({ ...page, version });
+  } catch (error) {
+    console.error('Error fetching row errors:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch row errors' },
+      { status: 500 }
+    );
+  }
+}
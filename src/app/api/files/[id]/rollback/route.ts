@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { version } = await req.json();
+    if (typeof version !== 'number' || !Number.isInteger(version)) {
+      return NextResponse.json({ error: 'Missing or invalid version' }, { status: 400 });
+    }
+
+    const created = await databaseService.rollbackFile(id, version);
+    if (!created) {
+      return NextResponse.json({ error: 'File or version not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, version: created });
+  } catch (error) {
+    console.error('Error rolling back file:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back file' },
+      { status: 500 }
+    );
+  }
+}
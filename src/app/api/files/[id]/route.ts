@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const file = await databaseService.getFileMetadata(id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    return NextResponse.json({ file });
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch file' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { fileName } = await req.json();
+    if (!fileName || typeof fileName !== 'string' || !fileName.trim()) {
+      return NextResponse.json({ error: 'Missing or invalid fileName' }, { status: 400 });
+    }
+
+    const file = await databaseService.renameFile(id, fileName.trim());
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, file });
+  } catch (error) {
+    console.error('Error renaming file:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename file' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await databaseService.deleteFile(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting file:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_PAGE_SIZE = 1000;
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = req.nextUrl.searchParams;
+
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    const limit = parseInt(searchParams.get('limit') || '100', 10);
+    const sort = searchParams.get('sort') || undefined;
+    const dir = searchParams.get('dir') || 'asc';
+
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json({ error: 'Invalid offset' }, { status: 400 });
+    }
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` }, { status: 400 });
+    }
+    if (dir !== 'asc' && dir !== 'desc') {
+      return NextResponse.json({ error: 'dir must be asc or desc' }, { status: 400 });
+    }
+
+    const file = await databaseService.getFileMetadata(id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    if (sort && !file.columns.includes(sort)) {
+      return NextResponse.json({ error: `Unknown sort column: ${sort}` }, { status: 400 });
+    }
+
+    const page = await databaseService.getFileRows(id, { offset, limit, sort, dir });
+    return NextResponse.json({ ...page, columns: file.columns, sort: sort ?? null, dir });
+  } catch (error) {
+    console.error('Error fetching file rows:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch file rows' },
+      { status: 500 }
+    );
+  }
+}
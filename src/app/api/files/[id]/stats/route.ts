@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+import { isNumericType } from '@/lib/typedValues';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = req.nextUrl.searchParams;
+    const column = searchParams.get('column');
+    const min = searchParams.get('min');
+    const max = searchParams.get('max');
+
+    const file = await databaseService.getFileMetadata(id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    if (!column || !isNumericType(file.columnTypes[column])) {
+      return NextResponse.json({ error: 'column must name a numeric column' }, { status: 400 });
+    }
+    if ((min !== null && isNaN(Number(min))) || (max !== null && isNaN(Number(max)))) {
+      return NextResponse.json({ error: 'min and max must be numbers' }, { status: 400 });
+    }
+
+    const stats = await databaseService.getColumnStats(id, column, {
+      min: min !== null ? Number(min) : undefined,
+      max: max !== null ? Number(max) : undefined
+    });
+    return NextResponse.json({ column, ...stats });
+  } catch (error) {
+    console.error('Error fetching column stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch column stats' },
+      { status: 500 }
+    );
+  }
+}
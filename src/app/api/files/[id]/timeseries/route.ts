@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService, TimeBucket } from '@/lib/database';
+import { isDateType, isNumericType } from '@/lib/typedValues';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const BUCKETS: TimeBucket[] = ['day', 'week', 'month', 'year'];
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = req.nextUrl.searchParams;
+    const dateColumn = searchParams.get('date');
+    const valueColumn = searchParams.get('value');
+    const bucket = (searchParams.get('bucket') || 'day') as TimeBucket;
+
+    const file = await databaseService.getFileMetadata(id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    if (!dateColumn || !isDateType(file.columnTypes[dateColumn])) {
+      return NextResponse.json({ error: 'date must name a date column' }, { status: 400 });
+    }
+    if (!valueColumn || !isNumericType(file.columnTypes[valueColumn])) {
+      return NextResponse.json({ error: 'value must name a numeric column' }, { status: 400 });
+    }
+    if (!BUCKETS.includes(bucket)) {
+      return NextResponse.json({ error: `bucket must be one of ${BUCKETS.join(', ')}` }, { status: 400 });
+    }
+
+    const series = await databaseService.getTimeSeries(id, dateColumn, valueColumn, {
+      bucket,
+      start: searchParams.get('start') || undefined,
+      end: searchParams.get('end') || undefined
+    });
+    return NextResponse.json({ date: dateColumn, value: valueColumn, bucket, series });
+  } catch (error) {
+    console.error('Error fetching time series:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch time series' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+type RouteContext = { params: Promise<{ id: string; version: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, version } = await params;
+    const versionNumber = parseInt(version, 10);
+    if (isNaN(versionNumber)) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    const fileVersion = await databaseService.getFileVersion(id, versionNumber);
+    if (!fileVersion) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const rows = await databaseService.getFileData(id, versionNumber);
+    return NextResponse.json({ version: fileVersion, rows });
+  } catch (error) {
+    console.error('Error fetching file version:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch file version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const file = await databaseService.getFileMetadata(id);
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const versions = await databaseService.getFileVersions(id);
+    return NextResponse.json({ currentVersion: file.currentVersion, versions });
+  } catch (error) {
+    console.error('Error fetching file versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch file versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,40 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { databaseService } from '@/lib/database';
+import { QueryBuilder, WhereClause } from '@/lib/queryBuilder';
 
 export async function POST(req: NextRequest) {
   try {
     const { query, filters } = await req.json();
-    
-    // For now, return all data with basic filtering
-    // In the future, we can implement more sophisticated query parsing
-    const data = await databaseService.queryData(query || '');
-    
-    // Apply basic filters if provided
-    let filteredData = data;
+
+    // A plain string (the old free-text form) means "all data"
+    const { query: dataQuery, errors } = QueryBuilder.validate(typeof query === 'string' ? {} : query);
+    if (!dataQuery) {
+      return NextResponse.json({ error: 'Invalid query', details: errors }, { status: 400 });
+    }
+
+    // Basic filters map onto the file meta columns
+    const where: WhereClause[] = [...(dataQuery.where ?? [])];
     if (filters) {
-      if (filters.dateRange) {
-        filteredData = filteredData.filter((row: any) => {
-          const uploadDate = new Date(row.uploadDate);
-          const start = filters.dateRange.start ? new Date(filters.dateRange.start) : null;
-          const end = filters.dateRange.end ? new Date(filters.dateRange.end) : null;
-          
-          if (start && uploadDate < start) return false;
-          if (end && uploadDate > end) return false;
-          return true;
-        });
+      const start = filters.dateRange?.start ? new Date(filters.dateRange.start) : null;
+      const end = filters.dateRange?.end ? new Date(filters.dateRange.end) : null;
+      const dateErrors = [
+        ...(start && isNaN(start.getTime()) ? ['filters.dateRange.start is not a valid date'] : []),
+        ...(end && isNaN(end.getTime()) ? ['filters.dateRange.end is not a valid date'] : [])
+      ];
+      if (dateErrors.length > 0) {
+        return NextResponse.json({ error: 'Invalid filters', details: dateErrors }, { status: 400 });
+      }
+      if (start) {
+        where.push({ column: 'uploadDate', op: '>=', value: start.toISOString() });
       }
-      
-      if (filters.fileName) {
-        filteredData = filteredData.filter((row: any) => 
-          row.fileName.toLowerCase().includes(filters.fileName.toLowerCase())
-        );
+      if (end) {
+        where.push({ column: 'uploadDate', op: '<=', value: end.toISOString() });
+      }
+      if (typeof filters.fileName === 'string' && filters.fileName) {
+        where.push({ column: 'fileName', op: 'like', value: `%${filters.fileName}%` });
       }
     }
+
+    const data = await databaseService.queryData({ ...dataQuery, where });
     
     return NextResponse.json({ 
-      data: filteredData,
-      totalRows: filteredData.length,
-      query: query || 'all data'
+      data,
+      totalRows: data.length,
+      query: typeof query === 'string' || !query ? 'all data' : dataQuery
     });
   } catch (error) {
     console.error('Error querying data:', error);
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+const MAX_RESULTS = 100;
+
+export async function GET(req: NextRequest) {
+  try {
+    const q = req.nextUrl.searchParams.get('q') || '';
+    const limit = parseInt(req.nextUrl.searchParams.get('limit') || '20', 10);
+    if (!q.trim()) {
+      return NextResponse.json({ error: 'Missing search query' }, { status: 400 });
+    }
+    if (isNaN(limit) || limit < 1 || limit > MAX_RESULTS) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_RESULTS}` }, { status: 400 });
+    }
+
+    const results = await databaseService.search(q, limit);
+    return NextResponse.json({ query: q, results });
+  } catch (error) {
+    console.error('Error searching:', error);
+    return NextResponse.json(
+      { error: 'Failed to search' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,37 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Papa from 'papaparse';
-import * as ExcelJS from 'exceljs';
-import { databaseService } from '@/lib/database';
+import { databaseService, UploadMode } from '@/lib/database';
 import { TextProcessor } from '@/lib/textProcessor';
+import { ColumnMapping, DEFAULT_PREVIEW_ROWS, MAX_PREVIEW_ROWS } from '@/lib/columnMapping';
+import { CsvDialect, CsvDialectDetector } from '@/lib/csvDialect';
 import { v4 as uuidv4 } from 'uuid';
 
+// Uploads are read into memory whole; larger CSV files and app exports
+// (Apple Health, Google Takeout) go through the streaming endpoint
+// (POST /api/upload/stream)
+const MAX_BUFFERED_UPLOAD_BYTES = 50 * 1024 * 1024;
+
 export const config = {
   api: {
     bodyParser: false,
   },
 };
 
-// Helper to get display value from ExcelJS cell
-function getCellDisplayValue(cellValue: any): any {
-  if (cellValue == null) return '';
-  if (typeof cellValue === 'object') {
-    // Formula cell
-    if ('formula' in cellValue) {
-      if ('result' in cellValue) return getCellDisplayValue(cellValue.result);
-      return `=${cellValue.formula}`;
-    }
-    // Rich text
-    if ('richText' in cellValue && Array.isArray(cellValue.richText)) {
-      return cellValue.richText.map((part: any) => part.text).join('');
-    }
-    // Date
-    if (cellValue instanceof Date) {
-      return cellValue.toISOString().split('T')[0];
-    }
-  }
-  return cellValue;
-}
-
 export async function POST(req: NextRequest) {
   console.log('API route called');
   try {
@@ -114,7 +98,17 @@ export async function POST(req: NextRequest) {
       return NextResponse.json(response);
     }
     
-    // Handle file upload
+    // Handle file upload. Nothing is saved yet: the file is staged and a
+    // preview returned, and POST /api/upload/staged/[id]/commit writes it.
+    const contentLength = parseInt(req.headers.get('content-length') ?? '', 10);
+    if (contentLength > MAX_BUFFERED_UPLOAD_BYTES) {
+      return NextResponse.json(
+        {
+          error: `File is too large to upload in one request (over ${MAX_BUFFERED_UPLOAD_BYTES / 1024 / 1024} MB); stream CSV files, Apple Health exports and Google Takeout archives through /api/upload/stream instead`
+        },
+        { status: 413 }
+      );
+    }
     const formData = await req.formData();
     const file = formData.get('file');
     console.log('File received:', file ? 'yes' : 'no');
@@ -123,184 +117,93 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
     }
 
-    // Read file buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const text = buffer.toString('utf-8');
-    console.log('File size:', buffer.length, 'bytes');
-
-    // Detect file type by extension
-    const fileName = (file as any).name as string | undefined;
-    console.log('File name:', fileName);
-    let data: any[] = [];
-    let columns: string[] = [];
-    let parseError: string | null = null;
-
-    if (fileName && (fileName.endsWith('.xlsx') || fileName.endsWith('.xls'))) {
-      console.log('Parsing Excel file...');
-      // Parse Excel file
-      try {
-        const workbook = new ExcelJS.Workbook();
-        await workbook.xlsx.load(arrayBuffer);
-        console.log('Workbook sheets:', workbook.worksheets.map(ws => ws.name));
-        const worksheet = workbook.worksheets[0];
-        console.log('Sheet name:', worksheet.name);
-        
-        // Find the actual data table by looking for the first row with multiple non-empty cells
-        let headerRow = -1;
-        let dataStartRow = -1;
-        
-        // Find the header row (first row with multiple non-empty cells)
-        for (let row = 1; row <= worksheet.rowCount; row++) {
-          const rowData = worksheet.getRow(row);
-          let nonEmptyCells = 0;
-          
-          rowData.eachCell((cell) => {
-            if (cell.value !== null && cell.value !== undefined && cell.value !== '') {
-              nonEmptyCells++;
-            }
-          });
-          
-          if (nonEmptyCells >= 2) { // At least 2 columns to be considered a header
-            headerRow = row;
-            dataStartRow = row + 1;
-            break;
-          }
-        }
-        
-        if (headerRow === -1) {
-          throw new Error('Could not find a valid header row in the sheet');
-        }
-        
-        console.log('Header row found at:', headerRow);
-        console.log('Data starts at row:', dataStartRow);
-        
-        // Get column headers from the detected header row
-        const headerRowData = worksheet.getRow(headerRow);
-        const headers: string[] = [];
-        
-        headerRowData.eachCell((cell, colNumber) => {
-          if (cell.value !== null && cell.value !== undefined && cell.value !== '') {
-            headers[colNumber - 1] = cell.value.toString();
-          } else {
-            headers[colNumber - 1] = `Column${colNumber}`;
-          }
-        });
-        
-        columns = headers;
-        console.log('Column headers:', columns);
-        
-        // Parse data starting from the row after the header
-        data = [];
-        for (let row = dataStartRow; row <= worksheet.rowCount; row++) {
-          const rowData = worksheet.getRow(row);
-          const rowObject: Record<string, any> = {};
-          let hasData = false;
-          
-          rowData.eachCell((cell, colNumber) => {
-            const header = headers[colNumber - 1];
-            if (header) {
-              const displayValue = getCellDisplayValue(cell.value);
-              rowObject[header] = displayValue;
-              if (displayValue !== null && displayValue !== undefined && displayValue !== '') {
-                hasData = true;
-              }
-            }
-          });
-          
-          // Only add rows that have at least some data
-          if (hasData) {
-            data.push(rowObject);
-          }
-        }
-        
-        console.log('Parsed data length:', data.length);
-        console.log('First row of data:', data[0]);
-        console.log('Excel parsed successfully. Rows:', data.length, 'Columns:', columns);
-      } catch (e) {
-        console.error('Excel parse error:', e);
-        parseError = `Failed to parse Excel file: ${e instanceof Error ? e.message : 'Unknown error'}`;
-      }
-    } else if (fileName && (fileName.endsWith('.txt') || fileName.endsWith('.text'))) {
-      console.log('Processing text file with NLP...');
-      try {
-        const result = await TextProcessor.processText(text);
-        
-        // Convert NLP result to table format
-        data = [{
-          id: result.id,
-          originalText: result.originalText,
-          metrics: JSON.stringify(result.metrics),
-          domain: result.domain,
-          sentiment: result.sentiment,
-          confidence: result.confidence,
-          insights: result.insights.join('; '),
-          recommendations: result.recommendations.join('; '),
-          timestamp: result.timestamp
-        }];
-        
-        columns = ['id', 'originalText', 'metrics', 'domain', 'sentiment', 'confidence', 'insights', 'recommendations', 'timestamp'];
-        console.log('Text processed successfully with NLP. Domain:', result.domain, 'Confidence:', result.confidence);
-      } catch (e) {
-        console.error('Text processing error:', e);
-        parseError = `Failed to process text file: ${e instanceof Error ? e.message : 'Unknown error'}`;
-      }
-    } else {
-      console.log('Parsing CSV file...');
-      // Parse CSV
-      const parsed = Papa.parse(text, { header: true, dynamicTyping: true });
-      if (parsed.errors.length > 0) {
-        console.error('CSV parse errors:', parsed.errors);
-        parseError = 'Failed to parse CSV';
-      } else {
-        data = parsed.data;
-        columns = parsed.meta.fields || [];
-        console.log('CSV parsed successfully. Rows:', data.length, 'Columns:', columns.length);
-      }
+    // "replace" swaps the data of an existing dataset instead of creating a new one,
+    // "append" adds the rows to it (optionally skipping duplicates by dedupeKey)
+    const mode = (formData.get('mode') as string | null) || 'new';
+    const targetFileId = formData.get('fileId') as string | null;
+    const dedupeKey = (formData.get('dedupeKey') as string | null) || null;
+    if (mode !== 'new' && mode !== 'replace' && mode !== 'append') {
+      return NextResponse.json({ error: `Unknown upload mode: ${mode}` }, { status: 400 });
     }
-
-    if (parseError) {
-      return NextResponse.json({ error: parseError }, { status: 400 });
+    if (mode !== 'new' && !targetFileId) {
+      return NextResponse.json({ error: `Missing fileId for ${mode}` }, { status: 400 });
+    }
+    if (targetFileId && mode !== 'new' && !(await databaseService.getFileMetadata(targetFileId))) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
 
-    const numRows = data.length;
-    const columnTypes: Record<string, string> = {};
-    if (data.length > 0) {
-      columns.forEach((col: string) => {
-        const val = (data[0] as Record<string, unknown>)[col];
-        columnTypes[col] = typeof val;
-      });
+    const previewRows = Math.min(
+      Math.max(parseInt(formData.get('previewRows') as string, 10) || DEFAULT_PREVIEW_ROWS, 1),
+      MAX_PREVIEW_ROWS
+    );
+    // Every sheet of a workbook by default, or only the ones named in repeated "sheets" fields
+    const sheets = formData.getAll('sheets').filter((name): name is string => typeof name === 'string' && name !== '');
+    // CSV settings to use instead of the detected ones, e.g. delimiter=;
+    const dialect = CsvDialectDetector.readFields(name => formData.get(name));
+    const dialectErrors = CsvDialectDetector.validate(dialect);
+    if (dialectErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid CSV settings', details: dialectErrors }, { status: 400 });
     }
+    // tolerant=true keeps the CSV rows that parse and reports the others
+    const tolerant = formData.get('tolerant') === 'true';
 
-    const response = {
-      fileId: uuidv4(),
-      numRows,
-      numColumns: columns.length,
-      columns,
-      columnTypes,
-      sample: data.slice(0, 5),
-    };
-    console.log('Sending response:', response);
-    
-    // Save data to database
+    // Read file buffer
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const fileName = file.name || 'unknown';
+    console.log('File name:', fileName, 'size:', buffer.length, 'bytes');
+
+    let mapped;
     try {
-      await databaseService.saveFileData(
-        response.fileId,
-        fileName || 'unknown',
-        buffer.length,
-        data,
-        columns,
-        columnTypes
+      mapped = await ColumnMapping.mapFile(buffer, fileName, sheets, { dialect: dialect as Partial<CsvDialect>, tolerant });
+    } catch (e) {
+      console.error('Parse error:', e);
+      return NextResponse.json(
+        { error: `Failed to parse ${fileName}: ${e instanceof Error ? e.message : 'Unknown error'}` },
+        { status: 400 }
       );
-      console.log('Data saved to database successfully');
-    } catch (dbError) {
-      console.error('Database save error:', dbError);
-      // Continue with response even if database save fails
     }
-    
-    return NextResponse.json(response);
+    if (mapped.missingSheets.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown sheet: ${mapped.missingSheets.join(', ')}`, sheets: mapped.sheetNames },
+        { status: 400 }
+      );
+    }
+    if (mapped.errors.length > 0) {
+      return NextResponse.json({ error: 'Could not read a table from the file', details: mapped.errors }, { status: 400 });
+    }
+
+    // Re-imported app exports only add rows that are not stored yet
+    if (mode !== 'replace') await ColumnMapping.skipImported(mapped);
+
+    // An existing dataset can only take one sheet
+    const tables = mode === 'new' ? mapped.tables : mapped.tables.slice(0, 1);
+    const staged = await databaseService.stageUpload({
+      id: uuidv4(),
+      fileName,
+      fileSize: buffer.length,
+      mode: mode as UploadMode,
+      targetFileId: mode === 'new' ? null : targetFileId,
+      dedupeKey,
+      sheets: tables.flatMap(table => table.sheetName !== undefined ? [table.sheetName] : []),
+      dialect: Object.keys(dialect).length > 0 ? dialect as Partial<CsvDialect> : null,
+      tolerant,
+      content: buffer
+    });
+    console.log('Upload staged:', staged.id, tables.map(table => `${table.sheetName ?? fileName} (${table.data.length} rows)`));
+
+    return NextResponse.json({
+      uploadId: staged.id,
+      fileName,
+      mode,
+      fileId: staged.targetFileId,
+      sheetNames: mapped.sheetNames,
+      skippedSheets: mapped.skippedSheets,
+      warnings: mapped.warnings,
+      dialect: mapped.dialect,
+      tables: tables.map(table => ColumnMapping.preview(table, previewRows)),
+    });
   } catch (error) {
     console.error('Unexpected error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
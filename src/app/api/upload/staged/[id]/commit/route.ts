@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+import { ColumnMapping } from '@/lib/columnMapping';
+import { v4 as uuidv4 } from 'uuid';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const SAMPLE_ROWS = 5;
+
+/**
+ * Write a staged upload to the database, applying the user's overrides
+ * (see UploadOverrides): renamed and dropped columns, forced types, the
+ * header row, the date column, CSV settings and tolerant parsing. CSV
+ * settings given with the upload apply unless overridden again. Rows a
+ * tolerant upload leaves out are stored with the new version (see
+ * GET /api/files/[id]/errors).
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const { overrides, errors } = ColumnMapping.validate(body);
+    if (!overrides) {
+      return NextResponse.json({ error: 'Invalid overrides', details: errors }, { status: 400 });
+    }
+
+    const staged = await databaseService.getStagedUpload(id);
+    if (!staged) {
+      return NextResponse.json({ error: 'Staged upload not found' }, { status: 404 });
+    }
+
+    let mapped;
+    try {
+      mapped = await ColumnMapping.mapFile(staged.content, staged.fileName, staged.sheets, {
+        ...overrides,
+        dialect: { ...staged.dialect, ...overrides.dialect },
+        tolerant: overrides.tolerant ?? staged.tolerant
+      });
+    } catch (e) {
+      return NextResponse.json(
+        { error: `Failed to parse ${staged.fileName}: ${e instanceof Error ? e.message : 'Unknown error'}` },
+        { status: 400 }
+      );
+    }
+    if (mapped.errors.length > 0) {
+      return NextResponse.json({ error: 'Overrides do not fit the file', details: mapped.errors }, { status: 400 });
+    }
+
+    // Re-imported app exports only add rows that are not stored yet
+    if (staged.mode !== 'replace' && await ColumnMapping.skipImported(mapped) > 0
+        && mapped.tables.every(mappedTable => mappedTable.data.length === 0)) {
+      await databaseService.deleteStagedUpload(staged.id);
+      return NextResponse.json({ error: 'Everything in this file was imported before' }, { status: 409 });
+    }
+
+    const [table] = mapped.tables;
+
+    if (staged.mode === 'append') {
+      try {
+        const existing = await databaseService.getFileMetadata(staged.targetFileId!);
+        if (!existing) {
+          return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+        const dedupeKey = staged.dedupeKey || undefined;
+        if (dedupeKey && !existing.columns.includes(dedupeKey)) {
+          return NextResponse.json({ error: `Unknown dedupe key column: ${dedupeKey}` }, { status: 400 });
+        }
+        const problems = databaseService.checkAppendCompatibility(existing, table.columns, table.columnTypes);
+        if (problems.length > 0) {
+          return NextResponse.json(
+            { error: 'Columns do not match the existing dataset', details: problems },
+            { status: 400 }
+          );
+        }
+
+        const result = await databaseService.appendFileData(existing.id, staged.fileSize, table.data, {
+          dedupeKey,
+          rowErrors: table.rowErrors
+        });
+        if (!result) {
+          return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+        await databaseService.deleteStagedUpload(staged.id);
+        console.log('Rows appended:', result);
+
+        return NextResponse.json({
+          fileId: existing.id,
+          numRows: result.numRows,
+          numColumns: existing.columns.length,
+          columns: existing.columns,
+          columnTypes: existing.columnTypes,
+          sample: table.data.slice(0, SAMPLE_ROWS),
+          appended: result.appended,
+          skipped: result.skipped,
+          rejectedRows: table.rowErrors.length,
+        });
+      } catch (dbError) {
+        console.error('Database append error:', dbError);
+        return NextResponse.json({ error: 'Failed to append to dataset' }, { status: 500 });
+      }
+    }
+
+    // One dataset per table; the tables of a workbook are linked by the upload id
+    const datasets = mapped.tables.map(mappedTable => ({
+      fileId: staged.mode === 'replace' ? staged.targetFileId! : uuidv4(),
+      sheetName: mappedTable.sheetName,
+      range: mappedTable.range,
+      numRows: mappedTable.data.length,
+      numColumns: mappedTable.columns.length,
+      columns: mappedTable.columns,
+      columnTypes: mappedTable.columnTypes,
+      columnInference: mappedTable.columnInference,
+      dateColumn: mappedTable.dateColumn,
+      source: mappedTable.source,
+      sample: mappedTable.data.slice(0, SAMPLE_ROWS),
+      rejectedRows: mappedTable.rowErrors.length,
+    }));
+
+    if (staged.mode === 'replace') {
+      try {
+        const replaced = await databaseService.replaceFileData(
+          staged.targetFileId!,
+          staged.fileName,
+          staged.fileSize,
+          table.data,
+          table.columns,
+          table.columnTypes,
+          { dateColumn: table.dateColumn, source: table.source, rowErrors: table.rowErrors }
+        );
+        if (!replaced) {
+          return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+        await databaseService.deleteStagedUpload(staged.id);
+        console.log('Dataset replaced successfully');
+      } catch (dbError) {
+        console.error('Database replace error:', dbError);
+        return NextResponse.json({ error: 'Failed to replace dataset' }, { status: 500 });
+      }
+      return NextResponse.json(datasets[0]);
+    }
+
+    try {
+      // All sheets are saved together, so a failure leaves none behind
+      await databaseService.saveDatasets(datasets.map((dataset, i) => ({
+        fileId: dataset.fileId,
+        fileName: staged.fileName,
+        fileSize: staged.fileSize,
+        data: mapped.tables[i].data,
+        columns: dataset.columns,
+        columnTypes: dataset.columnTypes,
+        options: {
+          uploadId: staged.id,
+          sheetName: dataset.sheetName,
+          dateColumn: dataset.dateColumn,
+          source: dataset.source,
+          rowErrors: mapped.tables[i].rowErrors
+        }
+      })));
+      await databaseService.deleteStagedUpload(staged.id);
+      console.log('Data saved to database successfully:', datasets.map(dataset => dataset.fileId));
+    } catch (dbError) {
+      console.error('Database save error:', dbError);
+      return NextResponse.json({ error: 'Failed to save dataset' }, { status: 500 });
+    }
+
+    if (datasets.length === 1) {
+      return NextResponse.json({ ...datasets[0], uploadId: staged.id });
+    }
+    // The first sheet doubles as the top-level result for single-dataset clients
+    return NextResponse.json({ ...datasets[0], uploadId: staged.id, sheets: datasets, skippedSheets: mapped.skippedSheets });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+import { ColumnMapping, DEFAULT_PREVIEW_ROWS, MAX_PREVIEW_ROWS } from '@/lib/columnMapping';
+import { CsvDialectDetector } from '@/lib/csvDialect';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Preview a staged upload again, optionally with a different header row
+ * (?headerRow=3) or table range (?range=H2:K20), applied to every sheet,
+ * or CSV settings (?delimiter=;
+ * and the other CsvDialect fields, ?tolerant=true).
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const staged = await databaseService.getStagedUpload(id);
+    if (!staged) {
+      return NextResponse.json({ error: 'Staged upload not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const headerRow = searchParams.get('headerRow');
+    const range = searchParams.get('range');
+    const tolerant = searchParams.get('tolerant');
+    const dialect = { ...staged.dialect, ...CsvDialectDetector.readFields(name => searchParams.get(name)) };
+    const { overrides, errors } = ColumnMapping.validate({
+      ...(headerRow !== null ? { headerRow: Number(headerRow) } : {}),
+      ...(range !== null ? { range } : {}),
+      dialect,
+      tolerant: tolerant !== null ? tolerant === 'true' : staged.tolerant
+    });
+    if (!overrides) {
+      return NextResponse.json({ error: 'Invalid overrides', details: errors }, { status: 400 });
+    }
+    const previewRows = Math.min(
+      Math.max(parseInt(searchParams.get('rows') || '', 10) || DEFAULT_PREVIEW_ROWS, 1),
+      MAX_PREVIEW_ROWS
+    );
+
+    let mapped;
+    try {
+      mapped = await ColumnMapping.mapFile(staged.content, staged.fileName, staged.sheets, overrides);
+    } catch (e) {
+      return NextResponse.json(
+        { error: `Failed to parse ${staged.fileName}: ${e instanceof Error ? e.message : 'Unknown error'}` },
+        { status: 400 }
+      );
+    }
+    if (mapped.errors.length > 0) {
+      return NextResponse.json({ error: 'Could not read a table from the file', details: mapped.errors }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      uploadId: staged.id,
+      fileName: staged.fileName,
+      mode: staged.mode,
+      fileId: staged.targetFileId,
+      sheetNames: mapped.sheetNames,
+      skippedSheets: mapped.skippedSheets,
+      warnings: mapped.warnings,
+      dialect: mapped.dialect,
+      tables: mapped.tables.map(table => ColumnMapping.preview(table, previewRows)),
+    });
+  } catch (error) {
+    console.error('Error previewing upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview upload' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Discard a staged upload without saving it.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await databaseService.deleteStagedUpload(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Staged upload not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error discarding upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard upload' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService, ImportJob } from '@/lib/database';
+import { CsvStreamImporter } from '@/lib/csvStreamImporter';
+import { ExportStreamImporter } from '@/lib/exportStreamImporter';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const SAMPLE_ROWS = 5;
+
+function progress(job: ImportJob) {
+  return {
+    ...job,
+    percent: job.status === 'done' ? 100
+      : job.bytesTotal ? Math.min(99, Math.floor(job.bytesRead / job.bytesTotal * 100))
+      : null
+  };
+}
+
+/**
+ * Progress of a streamed import: bytes read of the declared size, rows
+ * written so far, and the dataset once done.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await databaseService.getImportJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+    return NextResponse.json(progress(job));
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Stream the CSV file or app export in the request body into a new
+ * dataset. The body is
+ * the raw file, not a multipart form; the response comes once the last
+ * row is written.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await databaseService.getImportJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+    if (job.status !== 'pending') {
+      return NextResponse.json({ error: `Import is already ${job.status}` }, { status: 409 });
+    }
+    if (!req.body) {
+      return NextResponse.json({ error: 'No file content' }, { status: 400 });
+    }
+
+    const running = (await databaseService.updateImportJob(id, { status: 'running' }))!;
+    let result;
+    try {
+      result = ExportStreamImporter.handles(job.fileName)
+        ? await ExportStreamImporter.ingest(req.body, running)
+        : await CsvStreamImporter.ingest(req.body, running);
+    } catch (e) {
+      return NextResponse.json(
+        { error: `Failed to import ${job.fileName}: ${e instanceof Error ? e.message : 'Unknown error'}` },
+        { status: 400 }
+      );
+    }
+
+    const { dataset, warnings } = result;
+    const sample = await databaseService.getFileRows(dataset.id, { limit: SAMPLE_ROWS });
+    return NextResponse.json({
+      fileId: dataset.id,
+      numRows: dataset.numRows,
+      numColumns: dataset.numColumns,
+      columns: dataset.columns,
+      columnTypes: dataset.columnTypes,
+      sample: sample.rows,
+      rejectedRows: dataset.rejectedRows,
+      dialect: 'dialect' in result ? result.dialect : undefined,
+      warnings,
+      job: progress((await databaseService.getImportJob(id))!)
+    });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+import { CsvDialectDetector } from '@/lib/csvDialect';
+import { ExportStreamImporter } from '@/lib/exportStreamImporter';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Start a streamed import of a CSV file or an app export (Apple Health
+ * export.zip or export.xml, Google Takeout archive) too large to upload in
+ * one request.
+ * The returned job id takes the file content with
+ * PUT /api/upload/stream/[id], and reports progress on GET. `dialect`
+ * replaces detected CSV settings (see CsvDialect); with `tolerant`, rows
+ * that do not parse are left out and reported instead of failing the import.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const fileName = body?.fileName;
+    const fileSize = body?.fileSize;
+    const dialect = body?.dialect;
+    const tolerant = body?.tolerant;
+
+    if (typeof fileName !== 'string' || fileName.trim() === '') {
+      return NextResponse.json({ error: 'Missing fileName' }, { status: 400 });
+    }
+    if (!/\.(csv|tsv)$/i.test(fileName) && !ExportStreamImporter.handles(fileName)) {
+      return NextResponse.json({ error: 'Only CSV files, Apple Health exports and Google Takeout archives can be streamed' }, { status: 400 });
+    }
+    if (fileSize !== undefined && (typeof fileSize !== 'number' || !Number.isInteger(fileSize) || fileSize < 0)) {
+      return NextResponse.json({ error: 'fileSize must be a number of bytes' }, { status: 400 });
+    }
+    if (tolerant !== undefined && typeof tolerant !== 'boolean') {
+      return NextResponse.json({ error: 'tolerant must be true or false' }, { status: 400 });
+    }
+    const dialectErrors = dialect !== undefined ? CsvDialectDetector.validate(dialect) : [];
+    if (dialectErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid CSV settings', details: dialectErrors }, { status: 400 });
+    }
+
+    const job = await databaseService.createImportJob(uuidv4(), fileName, fileSize ?? null, dialect ?? null, tolerant ?? false);
+    console.log('Streamed import created:', job.id, fileName, fileSize ?? 'unknown size');
+
+    return NextResponse.json({ jobId: job.id, ...job }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * The datasets created by one upload, e.g. every imported sheet of a workbook.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const files = await databaseService.getUploadFiles(id);
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+    return NextResponse.json({ uploadId: id, files });
+  } catch (error) {
+    console.error('Error fetching upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch upload' },
+      { status: 500 }
+    );
+  }
+}
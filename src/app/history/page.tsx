@@ -1,6 +1,7 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { PencilSquareIcon, ArrowPathIcon, PlusCircleIcon, TrashIcon } from '@heroicons/react/24/outline';
 
 interface FileMetadata {
   id: string;
@@ -11,6 +12,10 @@ interface FileMetadata {
   numColumns: number;
   columns: string[];
   columnTypes: Record<string, string>;
+  currentVersion: number;
+  uploadId: string | null;
+  sheetName: string | null;
+  rejectedRows: number;
 }
 
 interface DataSummary {
@@ -24,6 +29,12 @@ export default function HistoryPage() {
   const [files, setFiles] = useState<FileMetadata[]>([]);
   const [dataSummary, setDataSummary] = useState<DataSummary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const [renamingFileId, setRenamingFileId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [pendingUpload, setPendingUpload] = useState<{ fileId: string; mode: 'replace' | 'append'; dedupeKey?: string } | null>(null);
+  const [error, setError] = useState("");
+  const uploadInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadFiles();
@@ -56,6 +67,110 @@ export default function HistoryPage() {
     }
   };
 
+  const refresh = async () => {
+    await Promise.all([loadFiles(), loadSummary()]);
+  };
+
+  const handleDelete = async (file: FileMetadata) => {
+    if (!window.confirm(`Delete "${file.fileName}" and all of its ${file.numRows.toLocaleString()} rows?`)) return;
+    setBusyFileId(file.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/files/${file.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to delete file');
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  const startRename = (file: FileMetadata) => {
+    setRenamingFileId(file.id);
+    setRenameValue(file.fileName);
+  };
+
+  const handleRename = async (fileId: string) => {
+    if (!renameValue.trim()) return;
+    setBusyFileId(fileId);
+    setError("");
+    try {
+      const res = await fetch(`/api/files/${fileId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName: renameValue }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to rename file');
+      setFiles((current) => current.map((f) => (f.id === fileId ? data.file : f)));
+      setRenamingFileId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  const startReplace = (fileId: string) => {
+    setPendingUpload({ fileId, mode: 'replace' });
+    uploadInputRef.current?.click();
+  };
+
+  const startAppend = (file: FileMetadata) => {
+    const dedupeKey = window.prompt(
+      `Skip rows whose value in this column already exists (${file.columns.join(', ')}). Leave blank to keep all rows.`
+    );
+    if (dedupeKey === null) return;
+    setPendingUpload({ fileId: file.id, mode: 'append', dedupeKey: dedupeKey.trim() || undefined });
+    uploadInputRef.current?.click();
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    const pending = pendingUpload;
+    if (!upload || !pending) return;
+    setBusyFileId(pending.fileId);
+    setError("");
+    try {
+      const formData = new FormData();
+      formData.append('file', upload);
+      formData.append('mode', pending.mode);
+      formData.append('fileId', pending.fileId);
+      if (pending.dedupeKey) formData.append('dedupeKey', pending.dedupeKey);
+      // Rows that do not parse are listed in the warnings before confirming
+      formData.append('tolerant', 'true');
+      const failure = (data: { error?: string; details?: unknown }) => {
+        const details = Array.isArray(data.details) ? `: ${data.details.join('; ')}` : '';
+        return new Error(`${data.error || `Failed to ${pending.mode} file`}${details}`);
+      };
+
+      // Uploads are staged first; confirm the preview before committing
+      const res = await fetch('/api/upload', { method: 'POST', body: formData });
+      const preview = await res.json();
+      if (!res.ok) throw failure(preview);
+
+      const table = preview.tables[0];
+      const warnings = [...preview.warnings, ...table.warnings];
+      const summary = `${table.numRows.toLocaleString()} rows, ${table.numColumns} columns (${table.columns.join(', ')})`;
+      if (!window.confirm(`${pending.mode === 'replace' ? 'Replace with' : 'Append'} ${summary}?${warnings.length > 0 ? `\n\n${warnings.join('\n')}` : ''}`)) {
+        await fetch(`/api/upload/staged/${preview.uploadId}`, { method: 'DELETE' });
+        return;
+      }
+
+      const commitRes = await fetch(`/api/upload/staged/${preview.uploadId}/commit`, { method: 'POST' });
+      if (!commitRes.ok) throw failure(await commitRes.json());
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusyFileId(null);
+      setPendingUpload(null);
+      if (uploadInputRef.current) uploadInputRef.current.value = "";
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -131,13 +246,47 @@ export default function HistoryPage() {
       {/* Files List */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-6">All Uploaded Files</h2>
+        {error && <div className="mb-4 text-sm text-red-600">{error}</div>}
+        <input
+          ref={uploadInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleUpload}
+          accept=".csv,.xlsx,.xls,.json,.ndjson,.jsonl,.txt,.text,.md,.markdown,.zip,.xml,.gpx,.tcx,.ofx,.qfx,.qif,.ics"
+        />
         
         <div className="space-y-4">
           {files.map((file) => (
             <div key={file.id} className="border border-gray-200 rounded-lg p-6 hover:border-gray-300 transition-colors">
               <div className="flex justify-between items-start mb-4">
                 <div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-1">{file.fileName}</h3>
+                  {renamingFileId === file.id ? (
+                    <form
+                      className="flex items-center gap-2 mb-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleRename(file.id);
+                      }}
+                    >
+                      <input
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        className="border border-gray-300 rounded-md px-2 py-1 text-gray-900"
+                        autoFocus
+                      />
+                      <button type="submit" className="text-sm text-blue-600 hover:text-blue-800" disabled={busyFileId === file.id}>
+                        Save
+                      </button>
+                      <button type="button" className="text-sm text-gray-500 hover:text-gray-700" onClick={() => setRenamingFileId(null)}>
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">
+                      {file.fileName}
+                      {file.sheetName && <span className="ml-2 text-sm font-normal text-gray-500">sheet “{file.sheetName}”</span>}
+                    </h3>
+                  )}
                   <p className="text-sm text-gray-500">
                     Uploaded {new Date(file.uploadDate).toLocaleDateString()} at {new Date(file.uploadDate).toLocaleTimeString()}
                   </p>
@@ -147,7 +296,53 @@ export default function HistoryPage() {
                     {(file.fileSize / 1024).toFixed(1)} KB
                   </div>
                   <div className="text-xs text-gray-400">
-                    {file.numRows.toLocaleString()} rows • {file.numColumns} columns
+                    {file.numRows.toLocaleString()} rows • {file.numColumns} columns • v{file.currentVersion}
+                  </div>
+                  {file.rejectedRows > 0 && (
+                    <a
+                      href={`/api/files/${file.id}/errors?format=csv`}
+                      className="text-xs text-amber-600 hover:text-amber-800"
+                    >
+                      {file.rejectedRows.toLocaleString()} rejected rows (download)
+                    </a>
+                  )}
+                  <div className="flex justify-end gap-2 mt-2">
+                    <button
+                      type="button"
+                      className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50"
+                      onClick={() => startRename(file)}
+                      disabled={busyFileId === file.id}
+                      title="Rename"
+                    >
+                      <PencilSquareIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      type="button"
+                      className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50"
+                      onClick={() => startReplace(file.id)}
+                      disabled={busyFileId === file.id}
+                      title="Replace with new upload"
+                    >
+                      <ArrowPathIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      type="button"
+                      className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50"
+                      onClick={() => startAppend(file)}
+                      disabled={busyFileId === file.id}
+                      title="Append rows from a new upload"
+                    >
+                      <PlusCircleIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      type="button"
+                      className="p-1.5 rounded-md text-red-500 hover:bg-red-50 hover:text-red-700 disabled:opacity-50"
+                      onClick={() => handleDelete(file)}
+                      disabled={busyFileId === file.id}
+                      title="Delete"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
                   </div>
                 </div>
               </div>
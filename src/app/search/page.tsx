@@ -0,0 +1,115 @@
+"use client";
+
+import React, { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+
+interface SearchResult {
+  kind: 'entry' | 'row';
+  id: string;
+  fileName: string | null;
+  rowIndex: number | null;
+  timestamp: string;
+  snippet: string;
+  rank: number;
+}
+
+// Render <mark> highlights from the API as React nodes, never as raw HTML
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">{part}</mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function SearchResults() {
+  const searchParams = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const runSearch = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Search failed');
+        setResults(data.results);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+    runSearch();
+  }, [query]);
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Search</h1>
+        <p className="text-lg text-gray-600">
+          {query ? <>Results for &ldquo;{query}&rdquo;</> : 'Search your entries and journal-style uploads from the sidebar'}
+        </p>
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+      {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+      {!loading && query && results.length === 0 && !error && (
+        <div className="text-center py-12 text-gray-500">No matches found</div>
+      )}
+
+      <div className="space-y-4">
+        {results.map((result) => (
+          <div key={`${result.kind}-${result.id}-${result.rowIndex ?? ''}`} className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex justify-between items-start mb-2">
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                {result.kind === 'entry' ? 'Entry' : `${result.fileName} • row ${(result.rowIndex ?? 0) + 1}`}
+              </span>
+              <span className="text-sm text-gray-500">
+                {new Date(result.timestamp).toLocaleDateString()}
+              </span>
+            </div>
+            <p className="text-gray-800">
+              <Snippet text={result.snippet} />
+            </p>
+            {result.kind === 'row' && (
+              <Link href="/history" className="text-sm text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                View in Data History
+              </Link>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={null}>
+      <SearchResults />
+    </Suspense>
+  );
+}
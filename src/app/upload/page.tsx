@@ -17,7 +17,9 @@ export default function UploadPage() {
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [recording, setRecording] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
   const { getBackgroundStyle } = useBackground();
 
   const handleTextSubmit = async () => {
@@ -41,8 +43,8 @@ export default function UploadPage() {
       const data = await res.json();
       if (!data.success) throw new Error(data.error || "Failed to process entry");
       setHistory((h) => [...h, { id: Date.now() + "-ai", type: 'text', content: data.aiResponse || "Entry received!", from: 'ai' }]);
-    } catch (err: any) {
-      setError(err.message || "Unknown error");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
       setLoading(false);
     }
@@ -71,29 +73,72 @@ export default function UploadPage() {
       const data = await res.json();
       if (!data.success) throw new Error(data.error || "Failed to upload file");
       setHistory((h) => [...h, { id: Date.now() + "-ai", type: 'text', content: "File received! (stub)", from: 'ai' }]);
-    } catch (err: any) {
-      setError(err.message || "Unknown error");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
       setLoading(false);
       if (fileInputRef.current) fileInputRef.current.value = "";
     }
   };
 
-  const handleVoiceStub = async () => {
+  const uploadVoiceNote = async (audio: Blob) => {
     setLoading(true);
     setError("");
     const userEntry: ChatEntry = {
       id: Date.now().toString(),
       type: 'voice',
-      content: `Voice note (stub)`,
+      content: `🎤 Voice note`,
       from: 'user',
     };
     setHistory((h) => [...h, userEntry]);
-    // In real use, record and upload audio
-    setTimeout(() => {
-      setHistory((h) => [...h, { id: Date.now() + "-ai", type: 'text', content: "Voice note received! (stub)", from: 'ai' }]);
+    try {
+      const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm';
+      const formData = new FormData();
+      formData.append("audio", audio, `voice-note.${extension}`);
+      const res = await fetch("/api/entry/voice", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || "Failed to process voice note");
+      // Show what was heard in place of the placeholder
+      setHistory((h) => [
+        ...h.map((entry) => entry.id === userEntry.id ? { ...entry, content: `🎤 ${data.entry.content}` } : entry),
+        { id: Date.now() + "-ai", type: 'text', content: data.aiResponse || "Voice note received!", from: 'ai' },
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
       setLoading(false);
-    }, 1200);
+    }
+  };
+
+  // The first click starts recording, the second stops it and sends the note
+  const handleVoice = async () => {
+    if (recorderRef.current) {
+      recorderRef.current.stop();
+      return;
+    }
+    setError("");
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setRecording(false);
+        uploadVoiceNote(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setRecording(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not use the microphone");
+    }
   };
 
   return (
@@ -163,11 +208,16 @@ export default function UploadPage() {
               </button>
               <button
                 type="button"
-                className="p-3 rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                onClick={handleVoiceStub}
-                title="Record voice note (stub)"
+                className={`p-3 rounded-full transition-colors ${
+                  recording
+                    ? 'bg-red-500 hover:bg-red-600 animate-pulse'
+                    : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+                onClick={handleVoice}
+                disabled={loading}
+                title={recording ? "Stop recording and send" : "Record voice note"}
               >
-                <MicrophoneIcon className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+                <MicrophoneIcon className={`h-5 w-5 ${recording ? 'text-white' : 'text-gray-600 dark:text-gray-300'}`} />
               </button>
               <textarea
                 value={input}
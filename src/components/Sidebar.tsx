@@ -1,7 +1,8 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: "📊" },
@@ -14,6 +15,14 @@ const navigation = [
 
 export default function Sidebar() {
   const pathname = usePathname();
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    router.push(`/search?q=${encodeURIComponent(query.trim())}`);
+  };
 
   return (
     <div className="w-64 bg-white dark:bg-gray-800 shadow-lg">
@@ -21,7 +30,17 @@ export default function Sidebar() {
         <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">Mil by 30</h1>
       </div>
       
-      <nav className="mt-6">
+      <form onSubmit={handleSearch} className="px-4 mt-6">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search entries..."
+          className="w-full px-4 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </form>
+
+      <nav className="mt-4">
         <div className="px-4">
           <ul className="space-y-2">
             {navigation.map((item) => {
@@ -0,0 +1,261 @@
+import { SaxesParser, SaxesTagPlain } from 'saxes';
+import { ParsedTable } from './fileParser';
+
+interface TrackPoint {
+  time?: number;       // Epoch ms
+  lat?: number;
+  lon?: number;
+  elevation?: number;  // Meters
+  distance?: number;   // Cumulative meters, when the device recorded it (TCX)
+  heartRate?: number;
+}
+
+interface Lap {
+  seconds?: number;
+  meters?: number;
+  calories?: number;
+}
+
+interface Activity {
+  name: string;
+  sport: string;
+  startTime?: number;
+  points: TrackPoint[];
+  laps: Lap[];
+  segments: number;
+}
+
+// One row per activity; distances in km, durations and paces in minutes
+type ActivityRow = {
+  startedAt: string;
+  finishedAt: string;
+  name: string;
+  sport: string;
+  distance_km: number;
+  duration_min: number;
+  pace_min_per_km: number | null;
+  avg_speed_kmh: number | null;
+  elevation_gain_m: number;
+  avg_heart_rate: number | null;
+  max_heart_rate: number | null;
+  calories: number | null;
+  laps: number;
+  points: number;
+};
+
+const ACTIVITY_COLUMNS = [
+  'startedAt', 'finishedAt', 'name', 'sport', 'distance_km', 'duration_min', 'pace_min_per_km',
+  'avg_speed_kmh', 'elevation_gain_m', 'avg_heart_rate', 'max_heart_rate', 'calories', 'laps', 'points'
+];
+
+// Climbs smaller than this are treated as GPS/barometer noise
+const ELEVATION_THRESHOLD_M = 2;
+const EARTH_RADIUS_M = 6371000;
+
+export class ActivityImporter {
+  /**
+   * Read every track of a GPX file, or every activity of a TCX file, into
+   * one row each: start time, distance, duration, pace, elevation gain and
+   * heart-rate stats computed from the track points and laps.
+   */
+  static parse(text: string, fileName: string, warnings: string[]): ParsedTable {
+    const gpx = fileName.toLowerCase().endsWith('.gpx');
+    const activities: Activity[] = [];
+    const path: string[] = [];
+    let activity: Activity | null = null;
+    let point: TrackPoint | null = null;
+    let lap: Lap | null = null;
+    let fileTime: number | undefined;
+    let textValue = '';
+
+    const parser = new SaxesParser();
+    parser.on('opentag', (node: SaxesTagPlain) => {
+      const name = this.localName(node.name);
+      const attributes = node.attributes as Record<string, string>;
+      path.push(name);
+      textValue = '';
+
+      if ((gpx && name === 'trk') || (!gpx && name === 'Activity')) {
+        activity = { name: '', sport: attributes.Sport || '', points: [], laps: [], segments: 0 };
+      } else if (activity && (name === 'trkpt' || name === 'Trackpoint')) {
+        point = {};
+        if (attributes.lat !== undefined) point.lat = parseFloat(attributes.lat);
+        if (attributes.lon !== undefined) point.lon = parseFloat(attributes.lon);
+      } else if (activity && name === 'trkseg') {
+        activity.segments++;
+      } else if (activity && name === 'Lap') {
+        lap = {};
+        const start = Date.parse(attributes.StartTime);
+        if (!isNaN(start) && activity.startTime === undefined) activity.startTime = start;
+      }
+    });
+    parser.on('text', (value) => {
+      textValue += value;
+    });
+    parser.on('closetag', (node) => {
+      const name = this.localName(node.name);
+      const parent = path[path.length - 2];
+      const value = textValue.trim();
+      path.pop();
+
+      if (point) {
+        switch (name) {
+          case 'time':
+          case 'Time':
+            point.time = Date.parse(value);
+            break;
+          case 'ele':
+          case 'AltitudeMeters':
+            point.elevation = parseFloat(value);
+            break;
+          case 'LatitudeDegrees':
+            point.lat = parseFloat(value);
+            break;
+          case 'LongitudeDegrees':
+            point.lon = parseFloat(value);
+            break;
+          case 'DistanceMeters':
+            point.distance = parseFloat(value);
+            break;
+          case 'hr':
+            point.heartRate = parseFloat(value);
+            break;
+          case 'Value':
+            if (parent === 'HeartRateBpm') point.heartRate = parseFloat(value);
+            break;
+          case 'trkpt':
+          case 'Trackpoint':
+            activity?.points.push(point);
+            point = null;
+            break;
+        }
+      } else if (lap) {
+        if (name === 'TotalTimeSeconds') lap.seconds = parseFloat(value);
+        if (name === 'DistanceMeters' && parent === 'Lap') lap.meters = parseFloat(value);
+        if (name === 'Calories') lap.calories = parseFloat(value);
+        if (name === 'Lap') {
+          activity?.laps.push(lap);
+          lap = null;
+        }
+      } else if (activity) {
+        if ((name === 'name' && parent === 'trk') || (name === 'Notes' && parent === 'Activity')) activity.name = value;
+        if (name === 'type' && parent === 'trk') activity.sport = value;
+        if (name === 'Id' && parent === 'Activity' && activity.startTime === undefined) {
+          const start = Date.parse(value);
+          if (!isNaN(start)) activity.startTime = start;
+        }
+        if ((gpx && name === 'trk') || (!gpx && name === 'Activity')) {
+          activities.push(activity);
+          activity = null;
+        }
+      } else if (name === 'time' && parent === 'metadata') {
+        fileTime = Date.parse(value);
+      }
+    });
+
+    parser.write(text.replace(/^\uFEFF/, '')).close();
+
+    const data = activities.flatMap(activity => {
+      const row = this.summarize(activity, fileTime);
+      if (!row) warnings.push(`Skipped ${activity.name || 'an activity'} without timed track points or laps`);
+      return row ? [row] : [];
+    });
+    if (data.length === 0) throw new Error(`No activities with timed track points found in the ${gpx ? 'GPX' : 'TCX'} file`);
+    console.log('Activity file parsed. Activities:', data.length);
+
+    return { headerRow: 1, data, columns: ACTIVITY_COLUMNS, dateColumn: 'startedAt' };
+  }
+
+  /**
+   * Compute an activity's row. Lap totals recorded by the device win over
+   * values derived from the track points.
+   */
+  private static summarize(activity: Activity, fileTime?: number): ActivityRow | null {
+    const points = activity.points;
+    const times = points.map(p => p.time).filter((time): time is number => time !== undefined && !isNaN(time));
+    // Tracks can hold far more points than Math.min(...values) accepts
+    const first = times.reduce((min, time) => Math.min(min, time), Infinity);
+    const last = times.reduce((max, time) => Math.max(max, time), -Infinity);
+    const start = activity.startTime ?? (times.length > 0 ? first : fileTime);
+    if (start === undefined || isNaN(start)) return null;
+
+    const lapSeconds = this.sum(activity.laps.map(l => l.seconds));
+    const seconds = lapSeconds ?? (times.length > 1 ? (last - first) / 1000 : undefined);
+    if (seconds === undefined) return null;
+
+    const recorded = points.map(p => p.distance).filter((d): d is number => d !== undefined && !isNaN(d));
+    const meters = this.sum(activity.laps.map(l => l.meters))
+      ?? (recorded.length > 0 ? recorded.reduce((max, d) => Math.max(max, d), 0) : this.trackDistance(points));
+    const km = meters / 1000;
+
+    const heartRates = points.map(p => p.heartRate).filter((hr): hr is number => hr !== undefined && !isNaN(hr));
+
+    return {
+      startedAt: new Date(start).toISOString(),
+      finishedAt: new Date(start + seconds * 1000).toISOString(),
+      name: activity.name,
+      sport: activity.sport,
+      distance_km: this.round(km),
+      duration_min: this.round(seconds / 60),
+      pace_min_per_km: km > 0 ? this.round(seconds / 60 / km) : null,
+      avg_speed_kmh: seconds > 0 ? this.round(km / (seconds / 3600)) : null,
+      elevation_gain_m: this.round(this.elevationGain(points)),
+      avg_heart_rate: heartRates.length > 0 ? Math.round(heartRates.reduce((a, b) => a + b, 0) / heartRates.length) : null,
+      max_heart_rate: heartRates.length > 0 ? heartRates.reduce((max, hr) => Math.max(max, hr), 0) : null,
+      calories: this.sum(activity.laps.map(l => l.calories)) ?? null,
+      laps: activity.laps.length || activity.segments,
+      points: points.length
+    };
+  }
+
+  private static trackDistance(points: TrackPoint[]): number {
+    let meters = 0;
+    let previous: TrackPoint | null = null;
+    for (const point of points) {
+      if (point.lat === undefined || point.lon === undefined || isNaN(point.lat) || isNaN(point.lon)) continue;
+      if (previous) meters += this.haversine(previous, point);
+      previous = point;
+    }
+    return meters;
+  }
+
+  private static haversine(a: TrackPoint, b: TrackPoint): number {
+    const rad = (deg: number) => deg * Math.PI / 180;
+    const dLat = rad(b.lat! - a.lat!);
+    const dLon = rad(b.lon! - a.lon!);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat!)) * Math.cos(rad(b.lat!)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+  }
+
+  /**
+   * Total climb, counting a rise only once it exceeds the noise threshold
+   * above the lowest point since the last counted climb.
+   */
+  private static elevationGain(points: TrackPoint[]): number {
+    let gain = 0;
+    let reference: number | undefined;
+    for (const { elevation } of points) {
+      if (elevation === undefined || isNaN(elevation)) continue;
+      if (reference === undefined || elevation < reference) {
+        reference = elevation;
+      } else if (elevation - reference >= ELEVATION_THRESHOLD_M) {
+        gain += elevation - reference;
+        reference = elevation;
+      }
+    }
+    return gain;
+  }
+
+  private static sum(values: (number | undefined)[]): number | undefined {
+    const present = values.filter((value): value is number => value !== undefined && !isNaN(value));
+    return present.length > 0 ? present.reduce((a, b) => a + b, 0) : undefined;
+  }
+
+  private static localName(name: string): string {
+    return name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,5 +1,6 @@
 import { DomainInsight, DataDomain } from './domainAnalyzer';
 import { CrossDatasetInsight, DatasetMetadata } from './correlationAnalyzer';
+import { isNumericType } from './typedValues';
 
 export interface AIInsight {
   id: string;
@@ -213,7 +214,7 @@ export class AIAnalyticsService {
     const stats: Record<string, any> = {};
 
     columns.forEach(col => {
-      if (columnTypes[col] === 'number') {
+      if (isNumericType(columnTypes[col])) {
         const values = data.map(row => row[col]).filter(v => v !== null && !isNaN(v));
         if (values.length > 0) {
           const sum = values.reduce((a, b) => a + b, 0);
@@ -384,7 +385,7 @@ export class AIAnalyticsService {
     const timestamp = Date.now();
 
     // Analyze numeric columns for trends
-    const numericColumns = data.columns?.filter((col: any) => col.type === 'number') || [];
+    const numericColumns = data.columns?.filter((col: { type?: string }) => isNumericType(col.type)) || [];
     numericColumns.forEach((col: any, index: number) => {
       if (col.sampleValues && col.sampleValues.length > 1) {
         const values = col.sampleValues.map((v: any) => parseFloat(v)).filter((v: any) => !isNaN(v));
@@ -519,7 +520,7 @@ export class AIAnalyticsService {
 
   private static generateVisualizationSuggestions(data: any): AIVisualization[] {
     const visualizations: AIVisualization[] = [];
-    const numericColumns = data.columns?.filter((col: any) => col.type === 'number') || [];
+    const numericColumns = data.columns?.filter((col: { type?: string }) => isNumericType(col.type)) || [];
     const stringColumns = data.columns?.filter((col: any) => col.type === 'string') || [];
 
     if (numericColumns.length > 0) {
@@ -0,0 +1,229 @@
+import JSZip from 'jszip';
+import { StringDecoder } from 'string_decoder';
+import { SaxesParser, SaxesTagPlain } from 'saxes';
+import { ParsedTable } from './fileParser';
+import { HEALTH_METRIC_UNITS, MetricRow, metricTable } from './healthMetrics';
+
+interface QuantityMapping {
+  metric: string;
+  // Factor to the metric's unit, keyed by the unit Apple Health recorded
+  units: Record<string, number>;
+}
+
+const QUANTITY_TYPES: Record<string, QuantityMapping> = {
+  HKQuantityTypeIdentifierStepCount: { metric: 'steps', units: { count: 1 } },
+  HKQuantityTypeIdentifierHeartRate: { metric: 'heart_rate', units: { 'count/min': 1 } },
+  HKQuantityTypeIdentifierBodyMass: { metric: 'weight', units: { kg: 1, lb: 0.45359237, g: 0.001, st: 6.35029318 } }
+};
+
+const SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+// In-bed and awake samples are not sleep
+const ASLEEP_VALUE = /^HKCategoryValueSleepAnalysisAsleep/;
+
+const DURATION_UNITS: Record<string, number> = { min: 1, s: 1 / 60, hr: 60, h: 60 };
+const ENERGY_UNITS: Record<string, number> = { kcal: 1, Cal: 1, kJ: 1 / 4.184 };
+const DISTANCE_UNITS: Record<string, number> = { km: 1, m: 0.001, mi: 1.609344, yd: 0.0009144, ft: 0.0003048 };
+
+const EXPORT_XML = /(^|\/)export\.xml$/;
+// Size of the slices a buffered export.xml is decoded in
+const XML_CHUNK_BYTES = 1024 * 1024;
+
+interface WorkoutState {
+  attributes: Record<string, string>;
+  energy?: { value: number; unit: string };
+  distance?: { value: number; unit: string };
+}
+
+export class AppleHealthImporter {
+  /**
+   * Whether an uploaded file is an Apple Health export: the export.zip
+   * archive or the export.xml inside it.
+   */
+  static async detect(buffer: Buffer, fileName: string): Promise<boolean> {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.xml')) {
+      return buffer.subarray(0, 4096).toString('utf-8').includes('<HealthData');
+    }
+    if (name.endsWith('.zip')) {
+      const zip = await JSZip.loadAsync(buffer);
+      return Object.keys(zip.files).some(path => this.isExportXml(path));
+    }
+    return false;
+  }
+
+  /**
+   * Whether a path in export.zip is the export.xml holding the records.
+   */
+  static isExportXml(path: string): boolean {
+    return EXPORT_XML.test(path);
+  }
+
+  /**
+   * Read steps, heart rate, body mass, sleep and workouts from an export
+   * into metric rows. The XML is parsed as a stream (straight out of the
+   * archive for export.zip), so the document is never held as a tree.
+   */
+  static async parse(buffer: Buffer, fileName: string, warnings: string[]): Promise<ParsedTable> {
+    const rows: MetricRow[] = [];
+    const skipped: Record<string, number> = {};
+    const parser = this.reader(rows, skipped);
+    // Decode across chunk boundaries so multi-byte characters survive
+    const decoder = new StringDecoder('utf8');
+
+    if (fileName.toLowerCase().endsWith('.zip')) {
+      const zip = await JSZip.loadAsync(buffer);
+      const entry = Object.values(zip.files).find(file => this.isExportXml(file.name));
+      if (!entry) throw new Error('The archive has no export.xml');
+
+      await new Promise<void>((resolve, reject) => {
+        entry.nodeStream('nodebuffer')
+          .on('data', (chunk: Buffer) => {
+            try {
+              parser.write(decoder.write(chunk));
+            } catch (error) {
+              reject(error);
+            }
+          })
+          .on('error', reject)
+          .on('end', () => resolve());
+      });
+    } else {
+      for (let offset = 0; offset < buffer.length; offset += XML_CHUNK_BYTES) {
+        parser.write(decoder.write(buffer.subarray(offset, offset + XML_CHUNK_BYTES)));
+      }
+    }
+    parser.write(decoder.end());
+    parser.close();
+
+    this.warnSkipped(skipped, warnings);
+    if (rows.length === 0) throw new Error('No steps, heart rate, body mass, sleep or workout records found');
+    console.log('Apple Health export parsed. Metric rows:', rows.length);
+
+    return metricTable(rows, 'apple_health');
+  }
+
+  /**
+   * An XML parser that adds the metric rows of the export it is fed to
+   * `rows`, counting the records of other types by type in `skipped`.
+   */
+  static reader(rows: MetricRow[], skipped: Record<string, number>): SaxesParser {
+    let workout: WorkoutState | null = null;
+
+    const parser = new SaxesParser();
+    parser.on('opentag', (node: SaxesTagPlain) => {
+      const attributes = node.attributes as Record<string, string>;
+      switch (node.name) {
+        case 'Record':
+          if (!this.readRecord(attributes, rows)) {
+            skipped[attributes.type] = (skipped[attributes.type] || 0) + 1;
+          }
+          break;
+        case 'Workout':
+          workout = { attributes };
+          break;
+        case 'WorkoutStatistics':
+          // Newer exports report a workout's totals as child statistics
+          if (workout && attributes.sum !== undefined) {
+            const total = { value: parseFloat(attributes.sum), unit: attributes.unit };
+            if (attributes.type === 'HKQuantityTypeIdentifierActiveEnergyBurned') workout.energy = total;
+            if (/^HKQuantityTypeIdentifierDistance/.test(attributes.type)) workout.distance = total;
+          }
+          break;
+      }
+    });
+    parser.on('closetag', (node) => {
+      if (node.name === 'Workout' && workout) {
+        this.readWorkout(workout, rows);
+        workout = null;
+      }
+    });
+    return parser;
+  }
+
+  static warnSkipped(skipped: Record<string, number>, warnings: string[]) {
+    const ignored = Object.values(skipped).reduce((sum, count) => sum + count, 0);
+    if (ignored > 0) {
+      warnings.push(`Skipped ${ignored} records of ${Object.keys(skipped).length} other types`);
+    }
+  }
+
+  /**
+   * Add the metric row for a quantity or sleep record. Returns false for
+   * record types that are not imported.
+   */
+  private static readRecord(attributes: Record<string, string>, rows: MetricRow[]): boolean {
+    const timestamp = this.toIsoDate(attributes.startDate);
+    const endTime = this.toIsoDate(attributes.endDate) ?? timestamp;
+    if (!timestamp || !endTime) return false;
+
+    const quantity = QUANTITY_TYPES[attributes.type];
+    if (quantity) {
+      const factor = quantity.units[attributes.unit];
+      const value = parseFloat(attributes.value);
+      if (factor === undefined || isNaN(value)) return false;
+      rows.push(this.row(timestamp, endTime, quantity.metric, value * factor, attributes.sourceName, ''));
+      return true;
+    }
+
+    if (attributes.type === SLEEP_TYPE) {
+      if (ASLEEP_VALUE.test(attributes.value)) {
+        const hours = (Date.parse(endTime) - Date.parse(timestamp)) / 3600000;
+        const stage = attributes.value.replace('HKCategoryValueSleepAnalysis', '');
+        rows.push(this.row(timestamp, endTime, 'sleep_hours', hours, attributes.sourceName, stage));
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Add rows for a workout's duration and, when recorded, its energy and distance.
+   */
+  private static readWorkout(workout: WorkoutState, rows: MetricRow[]) {
+    const { attributes } = workout;
+    const timestamp = this.toIsoDate(attributes.startDate);
+    const endTime = this.toIsoDate(attributes.endDate) ?? timestamp;
+    if (!timestamp || !endTime) return;
+    const activity = (attributes.workoutActivityType || '').replace('HKWorkoutActivityType', '');
+
+    const add = (metric: string, value: number, unit: string | undefined, units: Record<string, number>) => {
+      const factor = units[unit ?? ''];
+      if (factor !== undefined && !isNaN(value)) {
+        rows.push(this.row(timestamp, endTime, metric, value * factor, attributes.sourceName, activity));
+      }
+    };
+
+    add('exercise_time', parseFloat(attributes.duration), attributes.durationUnit, DURATION_UNITS);
+    const energy = attributes.totalEnergyBurned !== undefined
+      ? { value: parseFloat(attributes.totalEnergyBurned), unit: attributes.totalEnergyBurnedUnit }
+      : workout.energy;
+    if (energy) add('calories', energy.value, energy.unit, ENERGY_UNITS);
+    const distance = attributes.totalDistance !== undefined
+      ? { value: parseFloat(attributes.totalDistance), unit: attributes.totalDistanceUnit }
+      : workout.distance;
+    if (distance) add('distance', distance.value, distance.unit, DISTANCE_UNITS);
+  }
+
+  private static row(timestamp: string, endTime: string, metric: string, value: number, sourceName: string | undefined, detail: string): MetricRow {
+    return {
+      timestamp,
+      endTime,
+      metric,
+      value: Math.round(value * 1000) / 1000,
+      unit: HEALTH_METRIC_UNITS[metric],
+      sourceName: sourceName || '',
+      detail
+    };
+  }
+
+  /**
+   * Apple Health writes dates as "2024-01-05 08:30:00 -0500".
+   */
+  private static toIsoDate(value: string | undefined): string | null {
+    if (!value) return null;
+    const match = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+    const date = new Date(match ? `${match[1]}T${match[2]}${match[3]}:${match[4]}` : value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import { ParsedTable } from './fileParser';
+import { TransactionRow, transactionTable } from './transactions';
+
+interface QifEntry {
+  date?: string;
+  amount?: string;
+  payee?: string;
+  memo?: string;
+}
+
+// QIF sections that hold cash-account transactions; investment and list
+// sections (securities, categories, classes) are skipped
+const QIF_TRANSACTION_TYPES = /^!Type:(Bank|Cash|CCard|Oth A|Oth L)\s*$/i;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export class BankStatementImporter {
+  /**
+   * Read the transactions of every bank and credit card statement in an
+   * OFX or QFX file. Both OFX 1.x (SGML, where value elements are left
+   * unclosed) and OFX 2.x (XML) are accepted.
+   */
+  static parseOfx(text: string, warnings: string[]): ParsedTable {
+    const start = text.search(/<OFX>/i);
+    if (start < 0) throw new Error('No <OFX> element found');
+
+    const rows: TransactionRow[] = [];
+    const stack: string[] = [];
+    let account = '';
+    let transaction: Record<string, string> | null = null;
+    let skipped = 0;
+
+    const body = text.slice(start);
+    const tokens = /<(\/?)([A-Za-z0-9.]+)>([^<]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(body)) !== null) {
+      const [, closing, rawName, rawValue] = match;
+      const name = rawName.toUpperCase();
+      const value = this.decodeEntities(rawValue.trim());
+
+      if (closing) {
+        // Closing tags of value elements (OFX 2.x) have nothing to close
+        const index = stack.lastIndexOf(name);
+        if (index < 0) continue;
+        stack.length = index;
+        if (name === 'STMTTRN' && transaction) {
+          const row = this.ofxRow(transaction, account);
+          if (row) rows.push(row); else skipped++;
+          transaction = null;
+        }
+        continue;
+      }
+
+      if (value === '') {
+        stack.push(name);
+        if (name === 'STMTTRN') transaction = {};
+        continue;
+      }
+
+      const parent = stack[stack.length - 1];
+      if (name === 'ACCTID' && (parent === 'BANKACCTFROM' || parent === 'CCACCTFROM')) {
+        account = value;
+      } else if (transaction && parent === 'STMTTRN') {
+        transaction[name] = value;
+      } else if (transaction && parent === 'PAYEE' && name === 'NAME') {
+        // Some banks send a payee aggregate instead of a NAME element
+        transaction.NAME = transaction.NAME || value;
+      }
+    }
+
+    if (skipped > 0) warnings.push(`Skipped ${skipped} transactions without a valid date or amount`);
+    if (rows.length === 0) throw new Error('No transactions found in the OFX file');
+    console.log('OFX statement parsed. Transactions:', rows.length);
+
+    return transactionTable(rows);
+  }
+
+  /**
+   * Read the transactions of the bank, cash and credit card sections of a
+   * QIF file. QIF has no transaction ids, so each row gets one derived from
+   * its account, date, amount, payee and memo, numbered when a file holds
+   * several identical transactions.
+   */
+  static parseQif(text: string, warnings: string[]): ParsedTable {
+    const entries: (QifEntry & { account: string })[] = [];
+    let account = '';
+    let section = '';
+    let inAccount = false;
+    let entry: QifEntry = {};
+
+    for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+      const line = rawLine.trimEnd();
+      if (line === '') continue;
+
+      if (line.startsWith('!')) {
+        if (/^!Account/i.test(line)) {
+          inAccount = true;
+        } else if (/^!Type:/i.test(line)) {
+          section = line;
+          inAccount = false;
+        } else if (/^!Clear:AutoSwitch/i.test(line)) {
+          inAccount = false;
+        }
+        entry = {};
+        continue;
+      }
+
+      const code = line[0];
+      const value = line.slice(1).trim();
+      if (inAccount) {
+        if (code === 'N') account = value;
+        if (code === '^') inAccount = false;
+        continue;
+      }
+      if (!QIF_TRANSACTION_TYPES.test(section)) continue;
+
+      switch (code) {
+        case 'D': entry.date = value; break;
+        case 'T':
+        case 'U': entry.amount = entry.amount ?? value; break;
+        case 'P': entry.payee = value; break;
+        case 'M': entry.memo = value; break;
+        case '^':
+          entries.push({ ...entry, account });
+          entry = {};
+          break;
+      }
+    }
+
+    const dayFirst = this.isDayFirst(entries.map(e => e.date ?? ''));
+    const seen = new Map<string, number>();
+    const rows: TransactionRow[] = [];
+    let skipped = 0;
+
+    entries.forEach(qif => {
+      const date = this.parseQifDate(qif.date ?? '', dayFirst);
+      const amount = this.parseAmount(qif.amount ?? '');
+      if (!date || amount === null) {
+        skipped++;
+        return;
+      }
+
+      const identity = [qif.account, date, amount, qif.payee ?? '', qif.memo ?? ''].join('|');
+      const occurrence = (seen.get(identity) ?? 0) + 1;
+      seen.set(identity, occurrence);
+      const fitid = 'qif-' + createHash('sha1').update(`${identity}|${occurrence}`).digest('hex').slice(0, 20);
+
+      rows.push(this.row(date, qif.payee ?? '', amount, qif.account, qif.memo ?? '', fitid));
+    });
+
+    if (skipped > 0) warnings.push(`Skipped ${skipped} transactions without a valid date or amount`);
+    if (rows.length === 0) throw new Error('No bank, cash or credit card transactions found in the QIF file');
+    console.log('QIF file parsed. Transactions:', rows.length);
+
+    return transactionTable(rows);
+  }
+
+  private static ofxRow(fields: Record<string, string>, account: string): TransactionRow | null {
+    const date = this.parseOfxDate(fields.DTPOSTED ?? fields.DTUSER ?? '');
+    const amount = this.parseAmount(fields.TRNAMT ?? '');
+    if (!date || amount === null) return null;
+
+    // FITIDs are required by the spec but not always sent
+    const fitid = fields.FITID
+      || 'ofx-' + createHash('sha1').update([account, date, amount, fields.NAME ?? '', fields.MEMO ?? ''].join('|')).digest('hex').slice(0, 20);
+
+    return this.row(date, fields.NAME ?? '', amount, account, fields.MEMO ?? '', fitid);
+  }
+
+  private static row(date: string, payee: string, amount: number, account: string, memo: string, fitid: string): TransactionRow {
+    return {
+      date,
+      payee,
+      amount,
+      direction: amount < 0 ? 'debit' : 'credit',
+      account,
+      memo,
+      fitid
+    };
+  }
+
+  /**
+   * OFX dates are written like "20240105120000.000[-5:EST]". The posting
+   * day is kept as the bank wrote it, without shifting time zones.
+   */
+  private static parseOfxDate(value: string): string | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    return this.isoDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+  }
+
+  /**
+   * QIF dates come as "01/05/2024", "1/ 5/24", "1/5'24" (apostrophe for
+   * years after 1999) or "2024-01-05".
+   */
+  private static parseQifDate(value: string, dayFirst: boolean): string | null {
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (iso) return this.isoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+
+    const match = value.replace(/\s/g, '').match(/^(\d{1,2})[/.-](\d{1,2})(['/.-])(\d{2}|\d{4})$/);
+    if (!match) return null;
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[2], 10);
+    let year = parseInt(match[4], 10);
+    if (match[4].length === 2) {
+      year += match[3] === "'" || year < 50 ? 2000 : 1900;
+    }
+    return dayFirst ? this.isoDate(year, second, first) : this.isoDate(year, first, second);
+  }
+
+  /**
+   * QIF dates are month-first unless the file has a date whose first part
+   * cannot be a month.
+   */
+  private static isDayFirst(dates: string[]): boolean {
+    return dates.some(date => {
+      const match = date.trim().match(/^(\d{1,2})[/.-]/);
+      return match !== null && parseInt(match[1], 10) > 12;
+    });
+  }
+
+  private static isoDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Parse "-1,234.56", or "-1.234,56" from banks that write decimal commas.
+   */
+  private static parseAmount(value: string): number | null {
+    const text = value.replace(/\s/g, '');
+    const normalized = /,\d{1,2}$/.test(text)
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+    const amount = parseFloat(normalized);
+    return isNaN(amount) ? null : Math.round(amount * 100) / 100;
+  }
+
+  private static decodeEntities(value: string): string {
+    return value.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]);
+  }
+}
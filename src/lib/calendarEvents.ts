@@ -0,0 +1,61 @@
+import { ParsedTable, TableRow } from './fileParser';
+
+/**
+ * One occurrence of a calendar event in the normalized format produced by
+ * the calendar importer. Recurring events have a row per occurrence.
+ */
+export type CalendarEventRow = {
+  start: string;        // ISO 8601 instant
+  end: string;          // ISO 8601 instant
+  date: string;         // YYYY-MM-DD in the event's time zone
+  start_time: string;   // HH:MM in the event's time zone
+  title: string;
+  category: string;     // The event's CATEGORIES, comma separated
+  duration_min: number;
+  attendees: number;
+  time_of_day: 'morning' | 'afternoon' | 'evening' | 'night' | 'all_day';
+  all_day: boolean;
+  recurring: boolean;
+};
+
+export const CALENDAR_COLUMNS: (keyof CalendarEventRow)[] = [
+  'start', 'end', 'date', 'start_time', 'title', 'category', 'duration_min', 'attendees', 'time_of_day', 'all_day', 'recurring'
+];
+
+/**
+ * Whether a dataset holds calendar events from an .ics import.
+ */
+export function isCalendarTable(columns: string[]): boolean {
+  return ['start', 'end', 'duration_min', 'attendees', 'time_of_day'].every(column => columns.includes(column));
+}
+
+/**
+ * Whether an event took time with other people rather than alone.
+ */
+export function isMeeting(row: TableRow): boolean {
+  return !row.all_day && Number(row.attendees) >= 2;
+}
+
+/**
+ * Wrap importer output as a table dated by each event's start.
+ */
+export function calendarTable(rows: CalendarEventRow[]): ParsedTable {
+  return {
+    headerRow: 1,
+    data: rows.sort((a, b) => a.start.localeCompare(b.start)),
+    columns: CALENDAR_COLUMNS,
+    source: 'calendar',
+    dateColumn: 'start',
+    columnTypes: {
+      start: 'datetime',
+      end: 'datetime',
+      date: 'date',
+      start_time: 'string',
+      title: 'string',
+      category: 'string',
+      time_of_day: 'string',
+      all_day: 'boolean',
+      recurring: 'boolean'
+    }
+  };
+}
@@ -0,0 +1,465 @@
+import { ParsedTable } from './fileParser';
+import { CalendarEventRow, calendarTable } from './calendarEvents';
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * A DTSTART-style value as wall-clock time (its fields encoded as a UTC
+ * timestamp, so day arithmetic ignores DST) plus the zone it is read in.
+ */
+interface WallTime {
+  wall: number;
+  zone?: string;    // IANA zone; UTC when absent
+  allDay: boolean;
+}
+
+interface CalendarEvent {
+  uid: string;
+  title: string;
+  categories: string[];
+  attendees: number;
+  start: WallTime;
+  durationMs: number;
+  rrule?: string;
+  exdates: Set<number>;     // Excluded occurrences, as instants
+  recurrenceId?: number;    // Set on edited occurrences of a recurring event
+  cancelled: boolean;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: number;           // Instant, inclusive
+  byDay: { weekday: number; ordinal?: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+const DAY_MS = 24 * 3600000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SUPPORTED_RULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+
+// Recurring events are expanded up to this far past the import, so rules
+// without an end do not produce occurrences forever
+const RECURRENCE_FUTURE_DAYS = 90;
+// Occurrences kept per recurring event, whatever the window
+const MAX_OCCURRENCES = 2000;
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+export class CalendarImporter {
+  /**
+   * Read the events of an iCalendar file into one row per occurrence, with
+   * duration, categories, attendee count and time of day. Recurring events
+   * are expanded from their start to three months after the import,
+   * honouring EXDATEs and edited occurrences. Cancelled events are left out.
+   */
+  static parse(text: string, warnings: string[], now: number = Date.now()): ParsedTable {
+    const properties = this.unfold(text);
+    if (!properties.some(p => p.name === 'BEGIN' && p.value.toUpperCase() === 'VCALENDAR')) {
+      throw new Error('No VCALENDAR found in the iCalendar file');
+    }
+
+    const calendarZone = this.checkZone(properties.find(p => p.name === 'X-WR-TIMEZONE')?.value, warnings);
+    const events: CalendarEvent[] = [];
+    const components: string[] = [];
+    let current: Property[] | null = null;
+
+    for (const property of properties) {
+      if (property.name === 'BEGIN') {
+        components.push(property.value.toUpperCase());
+        if (property.value.toUpperCase() === 'VEVENT') current = [];
+      } else if (property.name === 'END') {
+        if (components.pop() === 'VEVENT' && current) {
+          const event = this.readEvent(current, calendarZone, warnings);
+          if (event) events.push(event);
+          current = null;
+        }
+      } else if (current && components[components.length - 1] === 'VEVENT') {
+        // Properties of nested components such as VALARM stay out
+        current.push(property);
+      }
+    }
+
+    // Edited occurrences replace the ones their recurring event would produce
+    const edited = new Map<string, Set<number>>();
+    events.filter(event => event.recurrenceId !== undefined).forEach(event => {
+      if (!edited.has(event.uid)) edited.set(event.uid, new Set());
+      edited.get(event.uid)!.add(event.recurrenceId!);
+    });
+
+    const windowEnd = now + RECURRENCE_FUTURE_DAYS * DAY_MS;
+    const rows: CalendarEventRow[] = [];
+    let cancelled = 0;
+
+    for (const event of events) {
+      if (event.cancelled) {
+        cancelled++;
+        continue;
+      }
+      if (!event.rrule) {
+        rows.push(this.row(event, event.start.wall, event.recurrenceId !== undefined, calendarZone));
+        continue;
+      }
+
+      const rule = this.parseRule(event.rrule, event.start, warnings);
+      if (!rule) {
+        rows.push(this.row(event, event.start.wall, false, calendarZone));
+        continue;
+      }
+      const skip = edited.get(event.uid);
+      const occurrences = this.expand(rule, event.start, windowEnd);
+      if (occurrences.length >= MAX_OCCURRENCES) {
+        warnings.push(`Only the first ${MAX_OCCURRENCES} occurrences of ${event.title || 'a recurring event'} were imported`);
+      }
+      occurrences.forEach(wall => {
+        const instant = this.toInstant(wall, event.start.zone);
+        if (event.exdates.has(instant) || skip?.has(instant)) return;
+        rows.push(this.row(event, wall, true, calendarZone));
+      });
+    }
+
+    if (cancelled > 0) warnings.push(`Skipped ${cancelled} cancelled events`);
+    if (rows.length === 0) throw new Error('No events found in the iCalendar file');
+    console.log('iCalendar file parsed. Events:', events.length, 'Occurrences:', rows.length);
+
+    return calendarTable(rows);
+  }
+
+  /**
+   * Split the file into properties, joining folded lines first.
+   */
+  private static unfold(text: string): Property[] {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const unfolded: string[] = [];
+    lines.forEach(line => {
+      if (/^[ \t]/.test(line) && unfolded.length > 0) {
+        unfolded[unfolded.length - 1] += line.slice(1);
+      } else if (line.trim() !== '') {
+        unfolded.push(line);
+      }
+    });
+
+    return unfolded.flatMap(line => {
+      // The value starts at the first colon outside quoted parameter values
+      let quoted = false;
+      let colon = -1;
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') quoted = !quoted;
+        if (line[i] === ':' && !quoted) {
+          colon = i;
+          break;
+        }
+      }
+      if (colon < 0) return [];
+
+      const [name, ...rawParams] = line.slice(0, colon).split(';');
+      const params: Record<string, string> = {};
+      rawParams.forEach(param => {
+        const equals = param.indexOf('=');
+        if (equals > 0) params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+      });
+      return [{ name: name.toUpperCase(), params, value: line.slice(colon + 1) }];
+    });
+  }
+
+  private static readEvent(properties: Property[], calendarZone: string | undefined, warnings: string[]): CalendarEvent | null {
+    const get = (name: string) => properties.find(p => p.name === name);
+    const dtstart = get('DTSTART');
+    const start = dtstart ? this.parseDateTime(dtstart, calendarZone, warnings) : null;
+    if (!start) return null;
+
+    const dtend = get('DTEND');
+    const end = dtend ? this.parseDateTime(dtend, calendarZone, warnings) : null;
+    const duration = get('DURATION');
+    let durationMs: number;
+    if (end) {
+      durationMs = this.toInstant(end.wall, end.zone) - this.toInstant(start.wall, start.zone);
+    } else if (duration) {
+      durationMs = this.parseDuration(duration.value);
+    } else {
+      // Without an end, all-day events last the day and others are instants
+      durationMs = start.allDay ? DAY_MS : 0;
+    }
+
+    const exdates = new Set<number>();
+    properties.filter(p => p.name === 'EXDATE').forEach(p => {
+      p.value.split(',').forEach(value => {
+        const excluded = this.parseDateTime({ ...p, value }, calendarZone, warnings);
+        if (excluded) exdates.add(this.toInstant(excluded.wall, excluded.zone));
+      });
+    });
+
+    const recurrenceId = get('RECURRENCE-ID');
+    const original = recurrenceId ? this.parseDateTime(recurrenceId, calendarZone, warnings) : null;
+
+    return {
+      uid: get('UID')?.value ?? '',
+      title: this.unescape(get('SUMMARY')?.value ?? ''),
+      categories: properties
+        .filter(p => p.name === 'CATEGORIES')
+        .flatMap(p => p.value.split(/(?<!\\),/).map(category => this.unescape(category).trim()))
+        .filter(Boolean),
+      attendees: properties.filter(p => p.name === 'ATTENDEE').length,
+      start,
+      durationMs: Math.max(0, durationMs),
+      rrule: get('RRULE')?.value,
+      exdates,
+      recurrenceId: original ? this.toInstant(original.wall, original.zone) : undefined,
+      cancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED'
+    };
+  }
+
+  /**
+   * The row for an occurrence. UTC times are shown in the calendar's zone,
+   * so dates and times of day are local.
+   */
+  private static row(event: CalendarEvent, wall: number, recurring: boolean, calendarZone?: string): CalendarEventRow {
+    const startInstant = this.toInstant(wall, event.start.zone);
+    const local = new Date(!event.start.zone && calendarZone ? startInstant + this.zoneOffset(startInstant, calendarZone) : wall);
+    const hour = local.getUTCHours();
+    const timeOfDay: CalendarEventRow['time_of_day'] = event.start.allDay ? 'all_day'
+      : hour >= 5 && hour < 12 ? 'morning'
+      : hour >= 12 && hour < 17 ? 'afternoon'
+      : hour >= 17 && hour < 22 ? 'evening'
+      : 'night';
+
+    return {
+      start: new Date(startInstant).toISOString(),
+      end: new Date(startInstant + event.durationMs).toISOString(),
+      date: local.toISOString().slice(0, 10),
+      start_time: local.toISOString().slice(11, 16),
+      title: event.title,
+      category: event.categories.join(', '),
+      duration_min: Math.round(event.durationMs / 60000),
+      attendees: event.attendees,
+      time_of_day: timeOfDay,
+      all_day: event.start.allDay,
+      recurring
+    };
+  }
+
+  /**
+   * Read a date or date-time property: "20240105" (all day),
+   * "20240105T090000Z" (UTC), or "20240105T090000" in the TZID parameter's
+   * zone, the calendar's zone, or UTC. All-day dates are read in the
+   * calendar's zone.
+   */
+  private static parseDateTime(property: Property, calendarZone: string | undefined, warnings: string[]): WallTime | null {
+    const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const wall = Date.UTC(+year, +month - 1, +day, +(hour ?? 0), +(minute ?? 0), +(second ?? 0));
+    if (isNaN(wall)) return null;
+
+    if (hour === undefined) return { wall, zone: calendarZone, allDay: true };
+    if (utc) return { wall, allDay: false };
+    const zone = property.params.TZID !== undefined ? this.checkZone(property.params.TZID, warnings) : calendarZone;
+    return { wall, zone, allDay: false };
+  }
+
+  /**
+   * ISO 8601 durations such as "PT1H30M", "P1D" or "P2W", in milliseconds.
+   */
+  private static parseDuration(value: string): number {
+    const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return 0;
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((+(weeks ?? 0) * 7 + +(days ?? 0)) * 24 * 3600 + +(hours ?? 0) * 3600 + +(minutes ?? 0) * 60 + +(seconds ?? 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+  }
+
+  private static parseRule(value: string, start: WallTime, warnings: string[]): RecurrenceRule | null {
+    const parts: Record<string, string> = {};
+    value.split(';').forEach(part => {
+      const [key, partValue] = part.split('=');
+      if (key && partValue !== undefined) parts[key.toUpperCase()] = partValue.toUpperCase();
+    });
+
+    const freq = parts.FREQ;
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+      warnings.push(`Recurrence rule ${value} is not supported; only the first occurrence was imported`);
+      return null;
+    }
+    const unsupported = Object.keys(parts).filter(key => !SUPPORTED_RULE_PARTS.includes(key));
+    if (unsupported.length > 0) {
+      warnings.push(`Ignored ${unsupported.join(', ')} in recurrence rule ${value}`);
+    }
+
+    let until: number | undefined;
+    if (parts.UNTIL) {
+      const parsed = this.parseDateTime({ name: 'UNTIL', params: {}, value: parts.UNTIL }, start.zone, warnings);
+      if (parsed) {
+        // A date-only UNTIL includes that whole day
+        until = this.toInstant(parsed.wall + (parsed.allDay ? DAY_MS - 1 : 0), parsed.allDay ? start.zone : parsed.zone);
+      }
+    }
+
+    return {
+      freq,
+      interval: Math.max(1, parseInt(parts.INTERVAL ?? '1', 10) || 1),
+      count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+      until,
+      byDay: (parts.BYDAY ?? '').split(',').filter(Boolean).flatMap(day => {
+        const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        return match ? [{ weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? parseInt(match[1], 10) : undefined }] : [];
+      }),
+      byMonthDay: (parts.BYMONTHDAY ?? '').split(',').filter(Boolean).map(Number).filter(day => !isNaN(day)),
+      byMonth: (parts.BYMONTH ?? '').split(',').filter(Boolean).map(Number).filter(month => !isNaN(month))
+    };
+  }
+
+  /**
+   * Wall-clock starts of a rule's occurrences up to the window's end.
+   */
+  private static expand(rule: RecurrenceRule, start: WallTime, windowEnd: number): number[] {
+    const occurrences: number[] = [];
+    const time = start.wall % DAY_MS;
+    // Periods starting after this cannot hold occurrences (a day covers any zone offset)
+    const limit = Math.min(windowEnd, rule.until ?? Infinity) + DAY_MS;
+
+    for (let period = 0; ; period++) {
+      const candidates = this.periodCandidates(rule, start.wall, period, time, limit);
+      if (candidates === null) break;
+
+      for (const wall of candidates) {
+        if (wall < start.wall) continue;
+        const instant = this.toInstant(wall, start.zone);
+        if ((rule.until !== undefined && instant > rule.until) || instant > windowEnd) return occurrences;
+        if (rule.count !== undefined && occurrences.length >= rule.count) return occurrences;
+        occurrences.push(wall);
+        if (occurrences.length >= MAX_OCCURRENCES) return occurrences;
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Candidate occurrences of the rule's nth period (day, week, month or
+   * year), in order. Returns null once the period starts after `limit`.
+   */
+  private static periodCandidates(rule: RecurrenceRule, startWall: number, period: number, time: number, limit: number): number[] | null {
+    const first = new Date(startWall);
+    const step = period * rule.interval;
+    const matchesMonth = (wall: number) => rule.byMonth.length === 0 || rule.byMonth.includes(new Date(wall).getUTCMonth() + 1);
+
+    switch (rule.freq) {
+      case 'DAILY': {
+        const wall = startWall + step * DAY_MS;
+        if (wall > limit) return null;
+        const date = new Date(wall);
+        const weekdayOk = rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === date.getUTCDay());
+        const dayOk = rule.byMonthDay.length === 0 || rule.byMonthDay.includes(date.getUTCDate());
+        return weekdayOk && dayOk && matchesMonth(wall) ? [wall] : [];
+      }
+      case 'WEEKLY': {
+        // Weeks start on Monday
+        const weekStart = startWall - time - ((first.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+        if (weekStart > limit) return null;
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [first.getUTCDay()];
+        return [...new Set(weekdays)]
+          .map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS + time)
+          .filter(matchesMonth)
+          .sort((a, b) => a - b);
+      }
+      case 'MONTHLY': {
+        const month = first.getUTCMonth() + step;
+        if (Date.UTC(first.getUTCFullYear(), month, 1) > limit) return null;
+        return this.monthCandidates(rule, first.getUTCFullYear(), month, first.getUTCDate(), time).filter(matchesMonth);
+      }
+      case 'YEARLY': {
+        const year = first.getUTCFullYear() + step;
+        if (Date.UTC(year, 0, 1) > limit) return null;
+        const months = rule.byMonth.length > 0 ? rule.byMonth.map(m => m - 1) : [first.getUTCMonth()];
+        return [...new Set(months)]
+          .sort((a, b) => a - b)
+          .flatMap(month => this.monthCandidates(rule, year, month, first.getUTCDate(), time));
+      }
+    }
+  }
+
+  /**
+   * Days of one month selected by BYMONTHDAY or BYDAY ("2TU", "-1FR"),
+   * or the start's day of month when the rule has neither.
+   */
+  private static monthCandidates(rule: RecurrenceRule, year: number, month: number, startDay: number, time: number): number[] {
+    const monthStart = Date.UTC(year, month, 1);
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    let days: number[];
+
+    if (rule.byMonthDay.length > 0) {
+      days = rule.byMonthDay.map(day => (day < 0 ? daysInMonth + day + 1 : day));
+    } else if (rule.byDay.length > 0) {
+      days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+        const firstWeekday = new Date(monthStart).getUTCDay();
+        const matching: number[] = [];
+        for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= daysInMonth; day += 7) matching.push(day);
+        if (ordinal === undefined) return matching;
+        const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        return pick !== undefined ? [pick] : [];
+      });
+    } else {
+      days = [startDay];
+    }
+
+    return [...new Set(days)]
+      .filter(day => day >= 1 && day <= daysInMonth)
+      .sort((a, b) => a - b)
+      .map(day => monthStart + (day - 1) * DAY_MS + time);
+  }
+
+  /**
+   * The instant a wall-clock time in a zone stands for.
+   */
+  private static toInstant(wall: number, zone?: string): number {
+    if (!zone) return wall;
+    const guess = wall - this.zoneOffset(wall, zone);
+    // The offset can differ across a DST change between wall and guess
+    return wall - this.zoneOffset(guess, zone);
+  }
+
+  /**
+   * Offset of a zone from UTC at an instant, in milliseconds.
+   */
+  private static zoneOffset(instant: number, zone: string): number {
+    let format = zoneFormats.get(zone);
+    if (!format) {
+      format = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone, hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+      });
+      zoneFormats.set(zone, format);
+    }
+    const parts: Record<string, number> = {};
+    format.formatToParts(new Date(instant)).forEach(part => {
+      if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+    });
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - (instant - (instant % 1000));
+  }
+
+  /**
+   * The zone when the runtime knows it; otherwise times are read as UTC.
+   */
+  private static checkZone(zone: string | undefined, warnings: string[]): string | undefined {
+    if (!zone) return undefined;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return zone;
+    } catch {
+      const warning = `Unknown time zone ${zone}; its times were read as UTC`;
+      if (!warnings.includes(warning)) warnings.push(warning);
+      return undefined;
+    }
+  }
+
+  private static unescape(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+  }
+}
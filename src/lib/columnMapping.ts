@@ -0,0 +1,352 @@
+import { EntrySource } from './entryModel';
+import { FileParser, ParsedTable, TableRow } from './fileParser';
+import { isMetricTable, metricKey } from './healthMetrics';
+import { isTransactionTable, transactionKey } from './transactions';
+import { databaseService } from './database';
+import { COLUMN_TYPES, ColumnInference, ColumnType, TypeInference } from './typeInference';
+import { CsvDialect, CsvDialectDetector } from './csvDialect';
+import { RowError } from './csvRows';
+import { ExcelTableDetector } from './excelTables';
+
+/**
+ * User corrections to a staged upload. Column names refer to the headers
+ * as they appeared in the preview, before any renames.
+ */
+export interface ColumnOverrides {
+  headerRow?: number;
+  range?: string;   // Cells of a sheet to read the table from, e.g. H2:K20
+  rename?: Record<string, string>;
+  drop?: string[];
+  types?: Record<string, ColumnType>;
+  dateColumn?: string;
+}
+
+/**
+ * Overrides for a whole upload. Workbooks with several sheets take theirs
+ * under `sheets`, keyed by sheet name; the top-level overrides apply when
+ * the upload has a single table (a top-level headerRow or range applies to
+ * every sheet without one of its own). `dialect` replaces detected CSV settings,
+ * and `tolerant` leaves out CSV rows that do not parse instead of failing.
+ */
+export interface UploadOverrides extends ColumnOverrides {
+  sheets?: Record<string, ColumnOverrides>;
+  dialect?: Partial<CsvDialect>;
+  tolerant?: boolean;
+}
+
+export interface MappedTable {
+  sheetName?: string;
+  headerRow: number;
+  data: TableRow[];
+  columns: string[];
+  columnTypes: Record<string, string>;
+  columnInference: Record<string, ColumnInference>;
+  dateColumn?: string;
+  source?: EntrySource;
+  rowErrors: RowError[];
+  range?: string;
+}
+
+export interface TablePreview extends Omit<MappedTable, 'data' | 'rowErrors'> {
+  numRows: number;
+  numColumns: number;
+  sample: TableRow[];
+  rejectedRows: number;
+  rejectedSample: RowError[];   // The first rows left out, as many as the sample
+  warnings: string[];
+}
+
+export interface MappedUpload {
+  tables: MappedTable[];
+  sheetNames: string[];
+  missingSheets: string[];
+  skippedSheets: string[];
+  warnings: string[];
+  errors: string[];
+  dialect?: CsvDialect;
+}
+
+export const DEFAULT_PREVIEW_ROWS = 20;
+export const MAX_PREVIEW_ROWS = 200;
+
+// Inferred types below this confidence are flagged in previews
+const WARN_CONFIDENCE = 0.95;
+
+export class ColumnMapping {
+  /**
+   * Check an untrusted request body against the UploadOverrides shape.
+   * Returns the typed overrides when valid, otherwise the list of problems.
+   */
+  static validate(input: unknown): { overrides?: UploadOverrides; errors: string[] } {
+    if (input === undefined || input === null) return { overrides: {}, errors: [] };
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      return { errors: ['Overrides must be an object'] };
+    }
+
+    const overrides = input as Record<string, unknown>;
+    const errors = this.validateColumnOverrides(overrides, '');
+
+    if (overrides.sheets !== undefined) {
+      if (typeof overrides.sheets !== 'object' || overrides.sheets === null || Array.isArray(overrides.sheets)) {
+        errors.push('sheets must map sheet names to overrides');
+      } else {
+        Object.entries(overrides.sheets).forEach(([sheet, sheetOverrides]) => {
+          if (typeof sheetOverrides !== 'object' || sheetOverrides === null || Array.isArray(sheetOverrides)) {
+            errors.push(`sheets.${sheet} must be an object`);
+          } else {
+            errors.push(...this.validateColumnOverrides(sheetOverrides as Record<string, unknown>, `sheets.${sheet}.`));
+          }
+        });
+      }
+    }
+
+    if (overrides.dialect !== undefined) errors.push(...CsvDialectDetector.validate(overrides.dialect));
+    if (overrides.tolerant !== undefined && typeof overrides.tolerant !== 'boolean') {
+      errors.push('tolerant must be true or false');
+    }
+
+    return errors.length > 0 ? { errors } : { overrides: overrides as UploadOverrides, errors };
+  }
+
+  /**
+   * Parse an uploaded file (only the given sheets of a workbook, when any)
+   * and apply the overrides to each of its tables. Throws when the file
+   * cannot be parsed; override problems are returned in `errors`.
+   */
+  static async mapFile(
+    buffer: Buffer,
+    fileName: string,
+    sheets: string[],
+    overrides: UploadOverrides = {}
+  ): Promise<MappedUpload> {
+    const headerRows: Record<string, number> = {};
+    const ranges: Record<string, string> = {};
+    Object.entries(overrides.sheets ?? {}).forEach(([sheet, sheetOverrides]) => {
+      if (sheetOverrides.headerRow !== undefined) headerRows[sheet] = sheetOverrides.headerRow;
+      if (sheetOverrides.range !== undefined) ranges[sheet] = sheetOverrides.range;
+    });
+
+    const parsed = await FileParser.parse(buffer, fileName, {
+      sheets,
+      headerRow: overrides.headerRow,
+      headerRows,
+      range: overrides.range,
+      ranges,
+      dialect: overrides.dialect,
+      tolerant: overrides.tolerant
+    });
+    const result: MappedUpload = { ...parsed, tables: [], errors: [] };
+
+    const sheetNames = parsed.tables.map(table => table.sheetName);
+    Object.keys(overrides.sheets ?? {})
+      .filter(sheet => !sheetNames.includes(sheet))
+      .forEach(sheet => result.errors.push(`Overrides given for sheet ${sheet}, which is not being imported`));
+
+    parsed.tables.forEach(table => {
+      const { table: mapped, errors } = this.apply(table, this.forTable(overrides, table, parsed.tables.length));
+      if (mapped) result.tables.push(mapped);
+      result.errors.push(...errors);
+    });
+
+    return result;
+  }
+
+  /**
+   * Apply overrides to a parsed table: drop columns, infer types for the
+   * rest (types fixed by the format, then forced types, win), mark the date column, rename, and normalize
+   * the cells. Returns the problems instead when an override does not fit.
+   */
+  static apply(table: ParsedTable, overrides: ColumnOverrides = {}): { table?: MappedTable; errors: string[] } {
+    const errors: string[] = [];
+    const where = table.sheetName !== undefined ? ` in sheet ${table.sheetName}` : '';
+    const known = (column: string) => table.columns.includes(column);
+
+    const referenced = [
+      ...(overrides.drop ?? []),
+      ...Object.keys(overrides.rename ?? {}),
+      ...Object.keys(overrides.types ?? {}),
+      ...(overrides.dateColumn !== undefined ? [overrides.dateColumn] : [])
+    ];
+    referenced.filter(column => !known(column)).forEach(column => {
+      errors.push(`Unknown column ${column}${where}`);
+    });
+
+    const dropped = new Set(overrides.drop ?? []);
+    const kept = table.columns.filter(column => column && !dropped.has(column));
+    if (kept.length === 0) errors.push(`No columns left${where}`);
+    if (overrides.dateColumn !== undefined && dropped.has(overrides.dateColumn)) {
+      errors.push(`Date column ${overrides.dateColumn}${where} cannot be dropped`);
+    }
+
+    const names = kept.map(column => overrides.rename?.[column] ?? column);
+    names.filter((name, i) => names.indexOf(name) !== i).forEach(name => {
+      errors.push(`Duplicate column name ${name}${where}`);
+    });
+    if (errors.length > 0) return { errors };
+
+    const inference = TypeInference.inferColumnTypes(table.data, kept);
+    const columnTypes: Record<string, string> = { ...inference.columnTypes };
+    Object.entries(table.columnTypes ?? {}).forEach(([column, type]) => {
+      if (kept.includes(column)) columnTypes[column] = type;
+    });
+    Object.entries(overrides.types ?? {}).forEach(([column, type]) => {
+      columnTypes[column] = type;
+    });
+    // The table's own date column (set by importers) applies unless overridden or dropped
+    const dateColumn = overrides.dateColumn
+      ?? (table.dateColumn !== undefined && kept.includes(table.dateColumn) ? table.dateColumn : undefined);
+    if (dateColumn !== undefined && !['date', 'datetime'].includes(columnTypes[dateColumn])) {
+      columnTypes[dateColumn] = 'date';
+    }
+
+    const normalized = TypeInference.normalizeRows(table.data, columnTypes);
+    const rename = (column: string) => overrides.rename?.[column] ?? column;
+    const data = normalized.map(row => {
+      const mapped: TableRow = {};
+      kept.forEach(column => {
+        if (column in row) mapped[rename(column)] = row[column];
+      });
+      return mapped;
+    });
+
+    const mappedTypes: Record<string, string> = {};
+    const mappedInference: Record<string, ColumnInference> = {};
+    kept.forEach(column => {
+      mappedTypes[rename(column)] = columnTypes[column];
+      mappedInference[rename(column)] = inference.columns[column];
+    });
+
+    return {
+      table: {
+        sheetName: table.sheetName,
+        headerRow: table.headerRow,
+        data,
+        columns: kept.map(rename),
+        columnTypes: mappedTypes,
+        columnInference: mappedInference,
+        dateColumn: dateColumn !== undefined ? rename(dateColumn) : undefined,
+        source: table.source,
+        rowErrors: table.rowErrors ?? [],
+        range: table.range
+      },
+      errors
+    };
+  }
+
+  /**
+   * Drop metric rows and bank transactions that an earlier import from the
+   * same app or bank already stored, so re-importing an overlapping export
+   * or statement only adds what is new. Returns the number of rows dropped.
+   */
+  static async skipImported(upload: MappedUpload): Promise<number> {
+    let skipped = 0;
+    for (const table of upload.tables) {
+      if (!table.source) continue;
+
+      let imported: Set<string>;
+      let key: (row: TableRow) => string;
+      if (table.source === 'bank_statement' && isTransactionTable(table.columns)) {
+        imported = await databaseService.getImportedTransactionKeys();
+        key = transactionKey;
+      } else if (isMetricTable(table.columns)) {
+        imported = await databaseService.getImportedMetricKeys(table.source);
+        key = metricKey;
+      } else {
+        continue;
+      }
+
+      const before = table.data.length;
+      table.data = table.data.filter(row => !imported.has(key(row)));
+      skipped += before - table.data.length;
+    }
+
+    if (skipped > 0) upload.warnings.push(`${skipped} rows were imported before and will be skipped`);
+    return skipped;
+  }
+
+  /**
+   * Summarize a mapped table for the preview step: its first `rows` rows
+   * plus warnings about headers and uncertain types.
+   */
+  static preview(table: MappedTable, rows: number = DEFAULT_PREVIEW_ROWS): TablePreview {
+    const { data, rowErrors, ...rest } = table;
+    const warnings: string[] = [];
+
+    table.columns.forEach(column => {
+      if (/^Column\d+$/.test(column)) {
+        warnings.push(`Column ${column} has no header`);
+      }
+      const inference = table.columnInference[column];
+      if (inference && inference.type !== 'string' && inference.confidence < WARN_CONFIDENCE) {
+        warnings.push(
+          `Column ${column} looks like ${inference.type} but ${Math.round((1 - inference.confidence) * 100)}% of its values do not match`
+        );
+      }
+      if (inference && inference.type === 'empty') {
+        warnings.push(`Column ${column} is empty`);
+      }
+    });
+    if (data.length === 0) warnings.push('No data rows below the header');
+
+    return {
+      ...rest,
+      numRows: data.length,
+      numColumns: table.columns.length,
+      sample: data.slice(0, rows),
+      rejectedRows: rowErrors.length,
+      rejectedSample: rowErrors.slice(0, rows),
+      warnings
+    };
+  }
+
+  /**
+   * The overrides that apply to one table of an upload.
+   */
+  private static forTable(overrides: UploadOverrides, table: ParsedTable, tableCount: number): ColumnOverrides {
+    if (table.sheetName !== undefined && overrides.sheets?.[table.sheetName]) {
+      return overrides.sheets[table.sheetName];
+    }
+    return tableCount === 1 ? overrides : {};
+  }
+
+  private static validateColumnOverrides(overrides: Record<string, unknown>, prefix: string): string[] {
+    const errors: string[] = [];
+    const isName = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+    const { headerRow } = overrides;
+
+    if (headerRow !== undefined && (typeof headerRow !== 'number' || !Number.isInteger(headerRow) || headerRow < 1)) {
+      errors.push(`${prefix}headerRow must be a positive integer`);
+    }
+    if (overrides.range !== undefined && (typeof overrides.range !== 'string' || !ExcelTableDetector.parseRange(overrides.range))) {
+      errors.push(`${prefix}range must be a cell range such as A1:F40`);
+    }
+    if (overrides.drop !== undefined && !(Array.isArray(overrides.drop) && overrides.drop.every(isName))) {
+      errors.push(`${prefix}drop must be a list of column names`);
+    }
+    if (overrides.rename !== undefined) {
+      if (typeof overrides.rename !== 'object' || overrides.rename === null || Array.isArray(overrides.rename)) {
+        errors.push(`${prefix}rename must map column names to new names`);
+      } else {
+        Object.entries(overrides.rename).forEach(([column, name]) => {
+          if (!isName(name)) errors.push(`${prefix}rename.${column} must be a non-empty name`);
+        });
+      }
+    }
+    if (overrides.types !== undefined) {
+      if (typeof overrides.types !== 'object' || overrides.types === null || Array.isArray(overrides.types)) {
+        errors.push(`${prefix}types must map column names to types`);
+      } else {
+        Object.entries(overrides.types).forEach(([column, type]) => {
+          if (!COLUMN_TYPES.includes(type as ColumnType)) {
+            errors.push(`${prefix}types.${column} must be one of ${COLUMN_TYPES.join(', ')}`);
+          }
+        });
+      }
+    }
+    if (overrides.dateColumn !== undefined && !isName(overrides.dateColumn)) {
+      errors.push(`${prefix}dateColumn must be a column name`);
+    }
+
+    return errors;
+  }
+}
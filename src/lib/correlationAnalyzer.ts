@@ -1,3 +1,5 @@
+import { isNumericType } from './typedValues';
+
 export interface DatasetMetadata {
   id: string;
   name: string;
@@ -102,7 +104,7 @@ export class CorrelationAnalyzer {
     let correlationCount = 0;
     
     sharedColumns.forEach(col => {
-      if (dataset1.columnTypes[col] === 'number' && dataset2.columnTypes[col] === 'number') {
+      if (isNumericType(dataset1.columnTypes[col]) && isNumericType(dataset2.columnTypes[col])) {
         const correlation = this.calculateColumnCorrelation(dataset1.data, dataset2.data, col);
         if (correlation !== null) {
           totalCorrelation += correlation;
@@ -136,8 +138,8 @@ export class CorrelationAnalyzer {
     if (dateColumns1.length === 0 || dateColumns2.length === 0) return null;
     
     // Find numeric columns that could be correlated over time
-    const numericColumns1 = dataset1.columns.filter(col => dataset1.columnTypes[col] === 'number');
-    const numericColumns2 = dataset2.columns.filter(col => dataset2.columnTypes[col] === 'number');
+    const numericColumns1 = dataset1.columns.filter(col => isNumericType(dataset1.columnTypes[col]));
+    const numericColumns2 = dataset2.columns.filter(col => isNumericType(dataset2.columnTypes[col]));
     
     if (numericColumns1.length === 0 || numericColumns2.length === 0) return null;
     
@@ -173,7 +175,7 @@ export class CorrelationAnalyzer {
     let correlationCount = 0;
     
     sharedColumns.forEach(col => {
-      if (dataset1.columnTypes[col] === 'number' && dataset2.columnTypes[col] === 'number') {
+      if (isNumericType(dataset1.columnTypes[col]) && isNumericType(dataset2.columnTypes[col])) {
         const correlation = this.calculateColumnCorrelation(dataset1.data, dataset2.data, col);
         if (correlation !== null) {
           totalCorrelation += correlation;
@@ -0,0 +1,208 @@
+import Papa from 'papaparse';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export const CSV_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'] as const;
+export const CSV_QUOTE_CHARS = ['"', "'"] as const;
+export const DECIMAL_SEPARATORS = ['.', ','] as const;
+
+/**
+ * How a CSV file is written. Files from spreadsheet apps in many European
+ * locales use semicolons between fields and commas in numbers, and older
+ * Windows exports are not UTF-8.
+ */
+export interface CsvDialect {
+  delimiter: typeof CSV_DELIMITERS[number];
+  encoding: typeof CSV_ENCODINGS[number];
+  quoteChar: typeof CSV_QUOTE_CHARS[number];
+  decimalSeparator: typeof DECIMAL_SEPARATORS[number];   // "1.234,56" is written with ','
+}
+
+// Bytes of the file looked at to detect its dialect
+export const DIALECT_SAMPLE_BYTES = 64 * 1024;
+// Lines of the sample parsed when comparing delimiters
+const DIALECT_SAMPLE_LINES = 50;
+
+const DIALECT_SETTINGS: (keyof CsvDialect)[] = ['delimiter', 'encoding', 'quoteChar', 'decimalSeparator'];
+
+// Characters Windows-1252 puts at 0x80-0x9F, where Latin-1 has control
+// codes. Node's TextDecoder decodes windows-1252 as Latin-1, so they are
+// mapped here.
+const WINDOWS_1252_EXTRAS = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+// Numbers written with a decimal comma and optional dot thousands separators
+const COMMA_DECIMAL_NUMBER = /^[-+]?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+
+export class CsvDialectDetector {
+  /**
+   * Detect the dialect of a CSV file from its first bytes. Values given in
+   * `overrides` are used as they are and the rest detected around them.
+   */
+  static detect(sample: Buffer, overrides: Partial<CsvDialect> = {}): CsvDialect {
+    const encoding = overrides.encoding ?? this.detectEncoding(sample);
+    const text = this.decoder(encoding)(sample.subarray(0, DIALECT_SAMPLE_BYTES));
+    // A sample cut from a larger file may end mid-line
+    const lines = text.split(/\r?\n/);
+    const complete = sample.length >= DIALECT_SAMPLE_BYTES && lines.length > 1 ? lines.slice(0, -1) : lines;
+    const head = complete.filter(line => line.trim() !== '').slice(0, DIALECT_SAMPLE_LINES).join('\n');
+
+    const delimiter = overrides.delimiter ?? this.detectDelimiter(head, overrides.quoteChar ?? '"');
+    const quoteChar = overrides.quoteChar ?? this.detectQuoteChar(head, delimiter);
+    const decimalSeparator = overrides.decimalSeparator ?? this.detectDecimalSeparator(head, delimiter, quoteChar);
+
+    return { delimiter, encoding, quoteChar, decimalSeparator };
+  }
+
+  /**
+   * UTF-8 and UTF-16 files with a byte order mark are recognized by it.
+   * Without one, UTF-16 shows as a zero byte in every other position, and
+   * text that is not valid UTF-8 is taken to be Windows-1252.
+   */
+  static detectEncoding(sample: Buffer): CsvDialect['encoding'] {
+    if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+    if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+    if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+    const pairs = Math.min(sample.length, 2000) >> 1;
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    if (pairs > 0 && oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+    if (pairs > 0 && evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+
+    try {
+      // stream: true tolerates a character cut off at the end of the sample
+      new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, DIALECT_SAMPLE_BYTES), { stream: true });
+      return 'utf-8';
+    } catch {
+      return 'windows-1252';
+    }
+  }
+
+  /**
+   * A streaming decoder for the encoding: call it with each chunk of the
+   * file, then without one to flush a character cut off at the end. A
+   * leading byte order mark is dropped.
+   */
+  static decoder(encoding: CsvDialect['encoding']): (chunk?: Uint8Array) => string {
+    const decoder = new TextDecoder(encoding);
+    return chunk => {
+      const text = chunk ? decoder.decode(chunk, { stream: true }) : decoder.decode();
+      if (encoding !== 'windows-1252') return text;
+      return text.replace(/[\u0080-\u009F]/g, char => WINDOWS_1252_EXTRAS[char.charCodeAt(0) - 0x80]);
+    };
+  }
+
+  static decode(buffer: Buffer, encoding: CsvDialect['encoding']): string {
+    const decode = this.decoder(encoding);
+    return decode(buffer) + decode();
+  }
+
+  /**
+   * Papa Parse settings for reading a file written in the dialect. Numbers
+   * with a decimal comma are rewritten with a decimal point so type
+   * inference reads them.
+   */
+  static parseConfig(dialect: CsvDialect): Pick<Papa.ParseConfig, 'delimiter' | 'quoteChar' | 'transform'> {
+    return {
+      delimiter: dialect.delimiter,
+      quoteChar: dialect.quoteChar,
+      transform: dialect.decimalSeparator === ',' ? (value: string) => this.normalizeNumber(value) : undefined
+    };
+  }
+
+  /**
+   * Dialect overrides given as separate form fields or query parameters
+   * (delimiter, encoding, quoteChar, decimalSeparator); check them with
+   * validate.
+   */
+  static readFields(get: (name: string) => unknown): Record<string, unknown> {
+    const dialect: Record<string, unknown> = {};
+    DIALECT_SETTINGS.forEach(setting => {
+      const value = get(setting);
+      if (typeof value === 'string' && value !== '') dialect[setting] = value;
+    });
+    return dialect;
+  }
+
+  /**
+   * Check untrusted dialect overrides. Returns the problems found.
+   */
+  static validate(input: unknown, prefix: string = 'dialect'): string[] {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return [`${prefix} must be an object`];
+    }
+    const dialect = input as Record<string, unknown>;
+    const errors: string[] = [];
+    const check = (key: keyof CsvDialect, allowed: readonly string[]) => {
+      if (dialect[key] !== undefined && !allowed.includes(dialect[key] as string)) {
+        errors.push(`${prefix}.${key} must be one of ${allowed.map(value => JSON.stringify(value)).join(', ')}`);
+      }
+    };
+    check('delimiter', CSV_DELIMITERS);
+    check('encoding', CSV_ENCODINGS);
+    check('quoteChar', CSV_QUOTE_CHARS);
+    check('decimalSeparator', DECIMAL_SEPARATORS);
+    Object.keys(dialect)
+      .filter(key => !DIALECT_SETTINGS.includes(key as keyof CsvDialect))
+      .forEach(key => errors.push(`Unknown ${prefix} setting ${key}`));
+    return errors;
+  }
+
+  /**
+   * The delimiter that splits the most lines into the same number of
+   * fields, preferring wider tables and then the order of CSV_DELIMITERS.
+   */
+  private static detectDelimiter(text: string, quoteChar: string): CsvDialect['delimiter'] {
+    let best: { delimiter: CsvDialect['delimiter']; lines: number; width: number } = { delimiter: ',', lines: 0, width: 1 };
+    for (const delimiter of CSV_DELIMITERS) {
+      const rows = Papa.parse<string[]>(text, { delimiter, quoteChar }).data;
+      const counts = new Map<number, number>();
+      rows.forEach(row => {
+        if (row.length > 1) counts.set(row.length, (counts.get(row.length) || 0) + 1);
+      });
+      const [width, lines] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [1, 0];
+      if (lines > best.lines || (lines === best.lines && lines > 0 && width > best.width)) {
+        best = { delimiter, lines, width };
+      }
+    }
+    return best.delimiter;
+  }
+
+  /**
+   * Single quotes only when more fields open with one than with a double quote.
+   */
+  private static detectQuoteChar(text: string, delimiter: string): CsvDialect['quoteChar'] {
+    const separator = delimiter === '|' ? '\\|' : delimiter === '\t' ? '\\t' : delimiter;
+    const opened = (quote: string) => (text.match(new RegExp(`(^|${separator})${quote}`, 'gm')) ?? []).length;
+    return opened("'") > opened('"') ? "'" : '"';
+  }
+
+  /**
+   * Count numbers that can only be read one way: "1,5" and "1.234,56" have
+   * a decimal comma, "1.5" and "1,234.56" a decimal point, while "1,234"
+   * and "1.234" could be either.
+   */
+  private static detectDecimalSeparator(text: string, delimiter: string, quoteChar: string): CsvDialect['decimalSeparator'] {
+    let comma = 0;
+    let point = 0;
+    Papa.parse<string[]>(text, { delimiter, quoteChar }).data.forEach(row => {
+      row.forEach(cell => {
+        const value = cell.trim();
+        if (/^[-+]?\d{1,3}(\.\d{3})+,\d+$/.test(value)) comma++;
+        else if (/^[-+]?\d{1,3}(,\d{3})+\.\d+$/.test(value)) point++;
+        else if (/^[-+]?\d+,\d+$/.test(value) && !/^[-+]?\d{1,3},\d{3}$/.test(value)) comma++;
+        else if (/^[-+]?\d+\.\d+$/.test(value) && !/^[-+]?\d{1,3}\.\d{3}$/.test(value)) point++;
+      });
+    });
+    return comma > point ? ',' : '.';
+  }
+
+  private static normalizeNumber(value: string): string {
+    const trimmed = value.trim();
+    if (!COMMA_DECIMAL_NUMBER.test(trimmed)) return value;
+    return trimmed.replace(/\./g, '').replace(',', '.');
+  }
+}
@@ -0,0 +1,73 @@
+import { TableRow } from './fileParser';
+
+/**
+ * A CSV row that could not be imported. Tolerant uploads keep the rows
+ * that parse and store one of these for each that does not.
+ */
+export interface RowError {
+  line: number;      // 1-based line of the file where the row starts
+  code: string;      // Papa Parse error code, e.g. TooFewFields or MissingQuotes
+  message: string;
+  raw: string;       // The row's text as it appears in the file
+}
+
+// Rejected rows kept per upload; a file that is mostly broken is better
+// fixed than reviewed row by row
+export const MAX_ROW_ERRORS = 10000;
+
+/**
+ * Column names from a CSV header line. Blank headers are named Column{n}
+ * and repeated ones numbered (name_1, name_2), as Papa Parse does.
+ */
+export function csvColumnNames(header: unknown[], warnings: string[]): string[] {
+  const seen = new Set<string>();
+  return header.map((value, index) => {
+    const name = value === null || value === undefined || String(value).trim() === '' ? `Column${index + 1}` : String(value);
+    let unique = name;
+    for (let n = 1; seen.has(unique); n++) unique = `${name}_${n}`;
+    if (unique !== name) warnings.push(`Duplicate column ${name} was renamed to ${unique}`);
+    seen.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * Whether a parsed line is empty (skipped, as Papa's skipEmptyLines does).
+ */
+export function isBlankRow(row: unknown[]): boolean {
+  return row.length === 1 && (row[0] === null || row[0] === '');
+}
+
+/**
+ * Number of line breaks in a row's text, for numbering the lines rows
+ * start on.
+ */
+export function lineBreaks(text: string): number {
+  return (text.match(/\n/g) ?? []).length;
+}
+
+/**
+ * The problem with a row whose field count does not match the header,
+ * worded as Papa Parse words it in header mode.
+ */
+export function fieldCountError(row: unknown[], width: number): Pick<RowError, 'code' | 'message'> | null {
+  if (row.length === width) return null;
+  return row.length < width
+    ? { code: 'TooFewFields', message: `Too few fields: expected ${width} fields but parsed ${row.length}` }
+    : { code: 'TooManyFields', message: `Too many fields: expected ${width} fields but parsed ${row.length}` };
+}
+
+export function toRecord(row: unknown[], columns: string[]): TableRow {
+  const record: TableRow = {};
+  columns.forEach((column, i) => {
+    record[column] = row[i];
+  });
+  return record;
+}
+
+/**
+ * Message for a strict upload that stops at its first bad rows.
+ */
+export function describeRowErrors(errors: Pick<RowError, 'line' | 'message'>[]): string {
+  return errors.slice(0, 3).map(error => `line ${error.line}: ${error.message}`).join('; ');
+}
@@ -0,0 +1,222 @@
+import Papa from 'papaparse';
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService, FileMetadata, ImportJob } from './database';
+import { ColumnMapping } from './columnMapping';
+import { CSV_DETECTION_LINES, FileParser, TableRow } from './fileParser';
+import { TypeInference } from './typeInference';
+import { CsvDialect, CsvDialectDetector, DIALECT_SAMPLE_BYTES } from './csvDialect';
+import {
+  csvColumnNames, describeRowErrors, fieldCountError, isBlankRow, lineBreaks, MAX_ROW_ERRORS, RowError, toRecord
+} from './csvRows';
+
+interface ParsedLine {
+  row: unknown[];
+  line: number;
+  raw: string;
+  error?: Pick<RowError, 'code' | 'message'>;
+}
+
+export interface StreamedImport {
+  dataset: FileMetadata;
+  dialect: CsvDialect;
+  warnings: string[];
+}
+
+// Rows written per transaction; the first batch is also the sample that
+// column types are inferred from
+const STREAM_BATCH_ROWS = 5000;
+// Parsed rows waiting to be written never cover more of the file than
+// this, however wide the rows are
+const STREAM_BATCH_BYTES = 8 * 1024 * 1024;
+
+export class CsvStreamImporter {
+  /**
+   * Parse a CSV upload chunk by chunk and write it to a new dataset in
+   * batches, recording progress on the import job as it goes. Reading
+   * pauses while a batch is written, so memory use stays bounded by the
+   * batch size rather than the file size. The dialect is detected from
+   * the first bytes (keeping the job's overrides) and the header line from
+   * the first lines, as for buffered uploads, and column types from the
+   * first batch. Rows that do not parse fail the import, or for tolerant
+   * jobs are left out and stored as the dataset's row errors. On failure
+   * the partial dataset is deleted.
+   */
+  static async ingest(body: ReadableStream<Uint8Array>, job: ImportJob): Promise<StreamedImport> {
+    const warnings: string[] = [];
+    const leading: ParsedLine[] = [];   // Lines read before the header is known
+    let columns: string[] | null = null;
+    let columnTypes: Record<string, string> = {};
+    let dayFirst: string[] = [];   // Date columns read day first, decided by the first batch
+    let dialect: CsvDialect | null = null;
+    let fileId: string | null = null;
+    let batch: TableRow[] = [];
+    let rowErrors: RowError[] = [];
+    let rejected = 0;
+    let line = 1;
+    let rowsWritten = 0;
+    let bytesRead = 0;
+    let bytesWritten = 0;
+
+    const addRow = ({ row, line: rowLine, raw, error }: ParsedLine) => {
+      // Blank lines are skipped, as skipEmptyLines does for buffered uploads
+      if (isBlankRow(row)) return;
+      const problem = error ?? fieldCountError(row, columns!.length);
+      if (!problem) {
+        batch.push(toRecord(row, columns!));
+        return;
+      }
+      if (!job.tolerant) throw new Error(describeRowErrors([{ line: rowLine, message: problem.message }]));
+      rejected++;
+      if (rejected <= MAX_ROW_ERRORS) {
+        rowErrors.push({ line: rowLine, code: problem.code, message: problem.message, raw });
+      }
+    };
+
+    const readHeader = () => {
+      const headerRow = FileParser.findHeaderRow(leading.map(parsed => parsed.row));
+      columns = csvColumnNames(leading[headerRow - 1]?.row ?? [], warnings);
+      leading.slice(headerRow).forEach(addRow);
+    };
+
+    const flush = async () => {
+      let rows = batch;
+      if (fileId === null) {
+        const { table, errors } = ColumnMapping.apply({ headerRow: 1, data: batch, columns: columns! });
+        if (!table) throw new Error(errors.join('; '));
+        columnTypes = table.columnTypes;
+        dayFirst = TypeInference.dayFirstColumns(batch, columnTypes);
+        rows = table.data;
+        fileId = uuidv4();
+        await databaseService.beginFileData(fileId, job.fileName, table.columns, columnTypes);
+        await databaseService.updateImportJob(job.id, { fileId });
+      } else {
+        rows = TypeInference.normalizeRows(batch, columnTypes, dayFirst);
+      }
+
+      await databaseService.appendStreamedRows(fileId, rows, rowsWritten, bytesRead, rowErrors);
+      rowsWritten += rows.length;
+      bytesWritten = bytesRead;
+      batch = [];
+      rowErrors = [];
+      await databaseService.updateImportJob(job.id, { bytesRead, rowsWritten });
+      console.log(`Streamed import ${job.id}: ${rowsWritten} rows, ${bytesRead} bytes`);
+    };
+
+    // Decoded text not yet read as whole rows; it starts on line `line`
+    let pending = '';
+    let newline: Papa.ParseConfig['newline'];
+
+    // Rows that end in the pending text, numbered by the file line they
+    // start on as for buffered uploads. The last row may continue in the
+    // next chunk, so it waits unless the file has ended.
+    const takeRows = (final: boolean): ParsedLine[] => {
+      // The first line break decides, or a "\r\n" split across chunks would read as "\r"
+      newline ??= pending.match(/\r\n|\r(?=[^\n])|\n/)?.[0] as Papa.ParseConfig['newline'];
+      if (newline === undefined && !final) return [];
+      const rows: { row: unknown[]; error?: Papa.ParseError; end: number }[] = [];
+      Papa.parse<unknown[]>(pending, {
+        ...CsvDialectDetector.parseConfig(dialect!),
+        newline,
+        step: results => {
+          rows.push({ row: results.data, error: results.errors[0], end: results.meta.cursor });
+        }
+      });
+
+      let position = 0;
+      const complete = (final ? rows : rows.slice(0, -1)).map(({ row, error, end }) => {
+        const text = pending.slice(position, end);
+        const parsed: ParsedLine = { row, line, raw: text.replace(/\r?\n$/, ''), error };
+        line += lineBreaks(text);
+        position = end;
+        return parsed;
+      });
+      pending = pending.slice(position);
+      return complete;
+    };
+
+    const handleRows = async (rows: ParsedLine[]) => {
+      rows.forEach(parsed => {
+        if (columns === null) {
+          leading.push(parsed);
+          if (leading.length === CSV_DETECTION_LINES) readHeader();
+        } else {
+          addRow(parsed);
+        }
+      });
+
+      if (batch.length >= STREAM_BATCH_ROWS || bytesRead - bytesWritten >= STREAM_BATCH_BYTES) {
+        await flush();
+      }
+    };
+
+    try {
+      const source = Readable.fromWeb(body as NodeReadableStream<Uint8Array>)[Symbol.asyncIterator]();
+      const head: Buffer[] = [];
+      let headBytes = 0;
+      let ended = false;
+      while (headBytes < DIALECT_SAMPLE_BYTES) {
+        const next = await source.next();
+        if (next.done) {
+          ended = true;
+          break;
+        }
+        head.push(next.value);
+        headBytes += next.value.length;
+      }
+      const detected = CsvDialectDetector.detect(Buffer.concat(head), job.dialect ?? {});
+      dialect = detected;
+      await databaseService.updateImportJob(job.id, { dialect });
+
+      const decodeChunk = CsvDialectDetector.decoder(detected.encoding);
+      const decode = async function* () {
+        try {
+          for (const chunk of head) {
+            bytesRead += chunk.length;
+            yield decodeChunk(chunk);
+          }
+          for (let next = ended ? null : await source.next(); next && !next.done; next = await source.next()) {
+            bytesRead += next.value.length;
+            yield decodeChunk(next.value);
+          }
+          const rest = decodeChunk();
+          if (rest !== '') yield rest;
+        } finally {
+          await source.return?.();
+        }
+      };
+      // Reading waits while a batch is written, so memory use stays bounded
+      for await (const text of decode()) {
+        pending += text;
+        await handleRows(takeRows(false));
+      }
+      await handleRows(takeRows(true));
+
+      if (columns === null) {
+        if (leading.length === 0) throw new Error('The file is empty');
+        readHeader();
+      }
+      await flush();
+      await databaseService.finishFileData(fileId!);
+      if (rejected > 0) {
+        warnings.push(`${rejected} rows could not be read and were left out`);
+        if (rejected > MAX_ROW_ERRORS) warnings.push(`Only the first ${MAX_ROW_ERRORS} rejected rows are kept for review`);
+      }
+      await databaseService.updateImportJob(job.id, { status: 'done', bytesRead, rowsWritten });
+      console.log(`Streamed import ${job.id} done: ${rowsWritten} rows in dataset ${fileId}`);
+
+      return { dataset: (await databaseService.getFileMetadata(fileId!))!, dialect: detected, warnings };
+    } catch (error) {
+      console.error(`Streamed import ${job.id} failed:`, error);
+      if (fileId !== null) await databaseService.deleteFile(fileId);
+      await databaseService.updateImportJob(job.id, {
+        status: 'failed',
+        fileId: null,
+        bytesRead,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
@@ -1,4 +1,8 @@
 import { databaseService } from './database';
+import { isNumericType } from './typedValues';
+import { isMetricTable } from './healthMetrics';
+import { isTransactionTable } from './transactions';
+import { CalendarEventRow, isCalendarTable, isMeeting } from './calendarEvents';
 
 export interface MetricAggregation {
   metric: string;
@@ -122,6 +126,8 @@ export class DataPipeline {
             data: data,
             columns: file.columns,
             columnTypes: file.columnTypes,
+            dateColumn: file.dateColumn,
+            source: file.source,
             createdAt: file.uploadDate
           });
         }
@@ -182,7 +188,7 @@ export class DataPipeline {
       
       // Extract numeric values from other columns
       dataset.columns.forEach((col: string) => {
-        if (dataset.columnTypes[col] === 'number' && row[col]) {
+        if (isNumericType(dataset.columnTypes[col]) && row[col]) {
           const value = parseFloat(row[col]);
           if (!isNaN(value) && value > 0) {
             this.recordMetric(col, value, domain, timestamp, dataset.name);
@@ -198,13 +204,20 @@ export class DataPipeline {
   private static async processStandardData(dataset: any): Promise<void> {
     // Detect domain based on column names and data
     const domain = this.detectDomain(dataset);
+    // Metric rows name their measure in a column; signed statement amounts
+    // and calendar events are turned into metrics below
+    const skipNumericColumns = isMetricTable(dataset.columns)
+      || isTransactionTable(dataset.columns)
+      || isCalendarTable(dataset.columns);
     
     for (const row of dataset.data) {
-      const timestamp = new Date(dataset.createdAt);
+      // Rows are dated by the dataset's date column when it has one
+      const rowDate = dataset.dateColumn ? new Date(row[dataset.dateColumn]) : null;
+      const timestamp = rowDate && !isNaN(rowDate.getTime()) ? rowDate : new Date(dataset.createdAt);
       
       // Extract numeric metrics
       dataset.columns.forEach((col: string) => {
-        if (dataset.columnTypes[col] === 'number' && row[col]) {
+        if (!skipNumericColumns && isNumericType(dataset.columnTypes[col]) && row[col]) {
           const value = parseFloat(row[col]);
           if (!isNaN(value) && value > 0) {
             this.recordMetric(col, value, domain, timestamp, dataset.name);
@@ -226,6 +239,11 @@ export class DataPipeline {
       if (domain === 'health') {
         this.extractHealthMetrics(row, dataset, timestamp);
       }
+
+      // Extract productivity metrics
+      if (domain === 'productivity') {
+        this.extractProductivityMetrics(row, dataset, timestamp);
+      }
     }
   }
 
@@ -233,10 +251,21 @@ export class DataPipeline {
    * Detect domain from dataset
    */
   private static detectDomain(dataset: any): string {
+    // Health app exports
+    if (dataset.source === 'apple_health' || dataset.source === 'google_fit') {
+      return 'health';
+    }
+    if (dataset.source === 'bank_statement') {
+      return 'financial';
+    }
+    if (dataset.source === 'calendar') {
+      return 'productivity';
+    }
+
     const columns = dataset.columns.map((col: string) => col.toLowerCase());
     
     // Sports indicators
-    if (columns.some(col => col.includes('goal') || col.includes('score') || col.includes('match'))) {
+    if (columns.some(col => col.includes('goal') || col.includes('score') || col.includes('match') || col.includes('pace'))) {
       return 'sports';
     }
     
@@ -278,6 +307,15 @@ export class DataPipeline {
       'amount', 'cost', 'price', 'expense', 'income', 'budget', 'savings',
       'spending', 'revenue', 'profit', 'loss'
     ];
+
+    // Statement transactions are signed: money in is income, money out spending
+    if (isTransactionTable(dataset.columns)) {
+      const amount = parseFloat(row.amount);
+      if (!isNaN(amount) && amount !== 0) {
+        this.recordMetric(amount > 0 ? 'income' : 'spending', Math.abs(amount), 'financial', timestamp, dataset.name);
+      }
+      return;
+    }
     
     financialMetrics.forEach(metric => {
       const value = this.extractNumericValue(row, dataset, metric);
@@ -293,8 +331,17 @@ export class DataPipeline {
   private static extractHealthMetrics(row: any, dataset: any, timestamp: Date): void {
     const healthMetrics = [
       'weight', 'calories', 'steps', 'heart_rate', 'blood_pressure',
-      'exercise_time', 'sleep_hours', 'water_intake'
+      'exercise_time', 'sleep_hours', 'water_intake', 'distance'
     ];
+
+    // Metric rows from health imports hold one named measurement each
+    if (isMetricTable(dataset.columns)) {
+      const value = parseFloat(row.value);
+      if (healthMetrics.includes(row.metric) && !isNaN(value) && value > 0) {
+        this.recordMetric(row.metric, value, 'health', timestamp, dataset.name);
+      }
+      return;
+    }
     
     healthMetrics.forEach(metric => {
       const value = this.extractNumericValue(row, dataset, metric);
@@ -304,6 +351,19 @@ export class DataPipeline {
     });
   }
 
+  /**
+   * Extract productivity metrics: time spent in meetings and in other
+   * scheduled events, in minutes
+   */
+  private static extractProductivityMetrics(row: CalendarEventRow, dataset: { columns: string[]; name: string }, timestamp: Date): void {
+    if (!isCalendarTable(dataset.columns) || row.all_day) return;
+
+    const minutes = Number(row.duration_min);
+    if (!isNaN(minutes) && minutes > 0) {
+      this.recordMetric(isMeeting(row) ? 'meeting_time' : 'scheduled_time', minutes, 'productivity', timestamp, dataset.name);
+    }
+  }
+
   /**
    * Extract numeric value from row
    */
@@ -501,7 +561,7 @@ export class DataPipeline {
     // Financial insights
     const financialMetrics = domainMetrics.find(dm => dm.domain === 'financial');
     if (financialMetrics) {
-      const totalSpending = financialMetrics.metrics['amount']?.total || 0;
+      const totalSpending = (financialMetrics.metrics['spending'] ?? financialMetrics.metrics['amount'])?.total || 0;
       const totalSavings = financialMetrics.metrics['savings']?.total || 0;
       if (totalSpending > 0) {
         insights.push(`Total spending: $${totalSpending.toFixed(2)}`);
@@ -543,7 +603,7 @@ export class DataPipeline {
       }
       
       if (dm.domain === 'financial') {
-        const spendingMetric = dm.metrics['amount'];
+        const spendingMetric = dm.metrics['spending'] ?? dm.metrics['amount'];
         if (spendingMetric && spendingMetric.trend === 'increasing') {
           recommendations.push('Consider reviewing spending patterns to identify savings opportunities');
         }
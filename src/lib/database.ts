@@ -1,6 +1,16 @@
 import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
 import path from 'path';
+import { UnifiedEntry, EntryType, EntrySource } from './entryModel';
+import { migrations } from './migrations';
+import { DataQuery, QueryBuilder, jsonPath } from './queryBuilder';
+import { materializeTypedValues } from './typedValues';
+import { TypeInference } from './typeInference';
+import { metricKey } from './healthMetrics';
+import { transactionKey } from './transactions';
+import { CsvDialect } from './csvDialect';
+import { RowError } from './csvRows';
+import { TableRow } from './fileParser';
 
 export interface FileMetadata {
   id: string;
@@ -11,55 +21,293 @@ export interface FileMetadata {
   numColumns: number;
   columns: string[];
   columnTypes: Record<string, string>;
+  currentVersion: number;
+  uploadId: string | null;
+  sheetName: string | null;
+  dateColumn: string | null;
+  source: EntrySource | null;
+  rejectedRows: number;   // Rows of the current version's upload that were left out
+}
+
+export interface SaveFileOptions {
+  uploadId?: string;    // Links datasets created from the same upload
+  sheetName?: string;   // Source worksheet for Excel uploads
+  dateColumn?: string;  // Column holding each row's date
+  source?: EntrySource; // App the data was exported from
+  rowErrors?: RowError[]; // Rows a tolerant upload left out
+}
+
+/**
+ * A dataset to create with saveDatasets.
+ */
+export interface NewDataset {
+  fileId: string;
+  fileName: string;
+  fileSize: number;
+  data: TableRow[];
+  columns: string[];
+  columnTypes: Record<string, string>;
+  options?: SaveFileOptions;
+}
+
+export type UploadMode = 'new' | 'replace' | 'append';
+
+/**
+ * An uploaded file waiting in the preview step. Its content is parsed
+ * again on commit, with the user's overrides.
+ */
+export interface StagedUpload {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mode: UploadMode;
+  targetFileId: string | null;
+  dedupeKey: string | null;
+  sheets: string[];
+  dialect: Partial<CsvDialect> | null;   // CSV settings the caller overrode
+  tolerant: boolean;                     // Leave out CSV rows that do not parse
+  content: Buffer;
+  createdAt: string;
+}
+
+/**
+ * A file kept with an entry, served from /api/entry/[id]/file.
+ */
+export interface EntryFile {
+  entryId: string;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  createdAt: string;
+}
+
+export type ImportJobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * A file streamed into a new dataset (see CsvStreamImporter). Its dataset
+ * is written in batches and stays hidden from listings until the job is done.
+ */
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  fileId: string | null;
+  status: ImportJobStatus;
+  bytesTotal: number | null;   // Declared size of the upload, when known
+  bytesRead: number;
+  rowsWritten: number;
+  error: string | null;
+  // The caller's CSV settings until the import starts, then the ones used
+  dialect: Partial<CsvDialect> | null;
+  tolerant: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ImportJobUpdate = Partial<Pick<ImportJob, 'fileId' | 'status' | 'bytesRead' | 'rowsWritten' | 'error' | 'dialect'>>;
+
+export type VersionOperation = 'create' | 'replace' | 'append' | 'rollback';
+
+export interface FileVersion {
+  fileId: string;
+  version: number;
+  createdAt: string;
+  operation: VersionOperation;
+  fileName: string;
+  fileSize: number;
+  numRows: number;
+  numColumns: number;
+  columns: string[];
+  columnTypes: Record<string, string>;
+  dateColumn: string | null;
+  source: EntrySource | null;
+  rowsAdded: number;
+  rowsRemoved: number;
+  restoredFrom: number | null;
+}
+
+export interface RowErrorPage {
+  errors: RowError[];
+  total: number;
+  offset: number;
+  limit: number;
 }
 
 export interface DataRow {
   [key: string]: any;
 }
 
+export interface RowPageOptions {
+  offset?: number;
+  limit?: number;
+  sort?: string;
+  dir?: 'asc' | 'desc';
+}
+
+export interface RowPage {
+  rows: DataRow[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface SearchResult {
+  kind: 'entry' | 'row';
+  id: string;               // Entry id, or file id for dataset rows
+  fileName: string | null;
+  rowIndex: number | null;
+  timestamp: string;
+  snippet: string;          // Matches wrapped in <mark></mark>
+  rank: number;             // bm25 score, lower is better
+}
+
+export interface ColumnStats {
+  count: number;
+  sum: number | null;
+  avg: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export type TimeBucket = 'day' | 'week' | 'month' | 'year';
+
+export interface TimeSeriesPoint {
+  period: string;
+  count: number;
+  sum: number | null;
+  avg: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface EntryQuery {
+  userId?: string;
+  type?: EntryType;
+  source?: EntrySource;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AppendResult {
+  appended: number;
+  skipped: number;
+  numRows: number;
+}
+
+export type EntryUpdate = Partial<Pick<UnifiedEntry, 'type' | 'source' | 'content' | 'fileUrl' | 'metadata' | 'timestamp'>>;
+
+// Table rows as SQLite returns them, with JSON columns still serialized
+type StoredRow = { data: string };
+type StoredFile = Omit<FileMetadata, 'columns' | 'columnTypes'> & { columns: string; columnTypes: string };
+type StoredVersion = Omit<FileVersion, 'columns' | 'columnTypes'> & { columns: string; columnTypes: string };
+type StoredEntry = Omit<UnifiedEntry, 'metadata'> & { metadata: string };
+
+// Rows per multi-row INSERT; 4 bound parameters each keeps us well under
+// SQLite's default 999-variable limit.
+const INSERT_BATCH_SIZE = 200;
+const ROW_ERROR_BATCH_SIZE = 150;
+
+// Staged uploads that are never committed are discarded after a day
+const STAGED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Running imports that report no progress for this long were interrupted
+// (e.g. by a restart); their partial datasets are removed
+const STALLED_IMPORT_MS = 10 * 60 * 1000;
+
+// Rows belonging to the current version of a dataset
+const CURRENT_ROWS = 'versionTo IS NULL';
+
+// files columns plus the number of rows the current version's upload left out
+const FILE_COLUMNS = `files.*, (SELECT COUNT(*) FROM row_errors re
+  WHERE re.fileId = files.id AND re.version = files.currentVersion) AS rejectedRows`;
+
+const BUCKET_FORMATS: Record<TimeBucket, string> = {
+  day: '%Y-%m-%d',
+  week: '%Y-W%W',
+  month: '%Y-%m',
+  year: '%Y'
+};
+
 class DatabaseService {
   private db: Database | null = null;
+  private opening: Promise<Database> | null = null;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
   async initialize() {
-    if (!this.db) {
-      this.db = await open({
-        filename: path.join(process.cwd(), 'data.db'),
-        driver: sqlite3.Database
-      });
+    if (this.db) return this.db;
 
-      // Create tables
-      await this.createTables();
+    // Share one open across concurrent callers so migrations only run once
+    if (!this.opening) {
+      this.opening = this.open().finally(() => {
+        this.opening = null;
+      });
     }
-    return this.db;
+    return this.opening;
   }
 
-  private async createTables() {
-    if (!this.db) return;
+  private async open(): Promise<Database> {
+    const db = await open({
+      filename: path.join(process.cwd(), 'data.db'),
+      driver: sqlite3.Database
+    });
 
-    // Files metadata table
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS files (
-        id TEXT PRIMARY KEY,
-        fileName TEXT NOT NULL,
-        fileSize INTEGER NOT NULL,
-        uploadDate TEXT NOT NULL,
-        numRows INTEGER NOT NULL,
-        numColumns INTEGER NOT NULL,
-        columns TEXT NOT NULL,
-        columnTypes TEXT NOT NULL
-      )
-    `);
+    try {
+      // Bring the schema up to date
+      await this.runMigrations(db);
+    } catch (error) {
+      await db.close();
+      throw error;
+    }
+
+    this.db = db;
+    return db;
+  }
 
-    // Data storage table (dynamic structure)
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS data_entries (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        fileId TEXT NOT NULL,
-        rowIndex INTEGER NOT NULL,
-        data TEXT NOT NULL,
-        FOREIGN KEY (fileId) REFERENCES files (id)
+  private async runMigrations(db: Database) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        appliedAt TEXT NOT NULL
       )
     `);
+
+    const current = await this.readSchemaVersion(db);
+    const pending = [...migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter(migration => migration.version > current);
+
+    for (const migration of pending) {
+      console.log(`Database: Applying migration ${migration.version} (${migration.name})`);
+      await db.exec('BEGIN');
+      try {
+        await migration.up(db);
+        await db.run(
+          'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+        await db.exec('COMMIT');
+      } catch (error) {
+        await db.exec('ROLLBACK');
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error}`);
+      }
+    }
+  }
+
+  private async readSchemaVersion(db: Database): Promise<number> {
+    const row = await db.get('SELECT MAX(version) as version FROM schema_migrations');
+    return row?.version ?? 0;
+  }
+
+  async getSchemaVersion(): Promise<{ current: number; latest: number; pending: number[] }> {
+    const db = await this.initialize();
+    const current = await this.readSchemaVersion(db);
+    const versions = migrations.map(migration => migration.version);
+
+    return {
+      current,
+      latest: Math.max(0, ...versions),
+      pending: versions.filter(version => version > current).sort((a, b) => a - b)
+    };
   }
 
   async saveFileData(
@@ -68,41 +316,526 @@ class DatabaseService {
     fileSize: number,
     data: any[],
     columns: string[],
-    columnTypes: Record<string, string>
+    columnTypes: Record<string, string>,
+    options: SaveFileOptions = {}
+  ) {
+    await this.saveDatasets([{ fileId, fileName, fileSize, data, columns, columnTypes, options }]);
+  }
+
+  /**
+   * Create several datasets in one transaction, so the tables of an upload
+   * are all stored or none are.
+   */
+  async saveDatasets(datasets: NewDataset[]) {
+    const startedAt = Date.now();
+
+    await this.withTransaction(async (db) => {
+      for (const { fileId, fileName, fileSize, data, columns, columnTypes, options = {} } of datasets) {
+        // Save file metadata
+        await db.run(
+          `INSERT INTO files (id, fileName, fileSize, uploadDate, numRows, numColumns, columns, columnTypes, uploadId, sheetName, dateColumn, source) 
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            fileId,
+            fileName,
+            fileSize,
+            new Date().toISOString(),
+            data.length,
+            columns.length,
+            JSON.stringify(columns),
+            JSON.stringify(columnTypes),
+            options.uploadId ?? null,
+            options.sheetName ?? null,
+            options.dateColumn ?? null,
+            options.source ?? null
+          ]
+        );
+
+        // Save data rows
+        await this.insertRows(db, fileId, data, 0, 1);
+        await this.insertRowErrors(db, fileId, 1, options.rowErrors ?? []);
+        await materializeTypedValues(db, fileId, columnTypes, 1);
+        await this.recordVersion(db, fileId, 1, 'create', { rowsAdded: data.length, rowsRemoved: 0 });
+      }
+    });
+
+    const elapsed = Math.max(1, Date.now() - startedAt);
+    datasets.forEach(({ fileId, data }) => {
+      console.log(
+        `Database: Saved ${data.length} rows for ${fileId} in ${elapsed}ms (${Math.round(data.length / elapsed * 1000)} rows/s)`
+      );
+    });
+  }
+
+  /**
+   * Create an empty dataset that a streamed import fills batch by batch
+   * with appendStreamedRows, then completes with finishFileData.
+   */
+  async beginFileData(
+    fileId: string,
+    fileName: string,
+    columns: string[],
+    columnTypes: Record<string, string>,
+    options: SaveFileOptions = {}
   ) {
+    await this.withTransaction(async (db) => {
+      await db.run(
+        `INSERT INTO files (id, fileName, fileSize, uploadDate, numRows, numColumns, columns, columnTypes, uploadId, sheetName, dateColumn, source)
+         VALUES (?, ?, 0, ?, 0, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          fileId,
+          fileName,
+          new Date().toISOString(),
+          columns.length,
+          JSON.stringify(columns),
+          JSON.stringify(columnTypes),
+          options.uploadId ?? null,
+          options.sheetName ?? null,
+          options.dateColumn ?? null,
+          options.source ?? null
+        ]
+      );
+    });
+  }
+
+  /**
+   * Write the next batch of a streamed import, numbering its rows from
+   * `startIndex`, with the rows of the batch that were left out.
+   * `bytes` is the size of the file read so far.
+   */
+  async appendStreamedRows(fileId: string, rows: TableRow[], startIndex: number, bytes: number, rowErrors: RowError[] = []) {
+    await this.withTransaction(async (db) => {
+      await this.insertRows(db, fileId, rows, startIndex, 1);
+      await this.insertRowErrors(db, fileId, 1, rowErrors);
+      await db.run(
+        'UPDATE files SET numRows = numRows + ?, fileSize = ? WHERE id = ?',
+        [rows.length, bytes, fileId]
+      );
+    });
+  }
+
+  /**
+   * Materialize the typed values of a streamed dataset and record it as
+   * version 1, as saveFileData does in one go.
+   */
+  async finishFileData(fileId: string) {
+    await this.withTransaction(async (db) => {
+      const file = await db.get('SELECT numRows, columnTypes FROM files WHERE id = ?', [fileId]);
+      if (!file) throw new Error(`File ${fileId} not found`);
+
+      await materializeTypedValues(db, fileId, JSON.parse(file.columnTypes), 1);
+      await this.recordVersion(db, fileId, 1, 'create', { rowsAdded: file.numRows, rowsRemoved: 0 });
+    });
+  }
+
+  /**
+   * Swap a dataset's rows and metadata for a new upload, keeping its id.
+   * The previous rows stay readable through the prior version.
+   * Returns false when the file does not exist.
+   */
+  async replaceFileData(
+    fileId: string,
+    fileName: string,
+    fileSize: number,
+    data: TableRow[],
+    columns: string[],
+    columnTypes: Record<string, string>,
+    options: Pick<SaveFileOptions, 'dateColumn' | 'source' | 'rowErrors'> = {}
+  ): Promise<boolean> {
+    return this.withTransaction(async (db) => {
+      const file = await db.get('SELECT currentVersion FROM files WHERE id = ?', [fileId]);
+      if (!file) return false;
+      const version = file.currentVersion + 1;
+
+      await db.run(
+        `UPDATE files
+         SET fileName = ?, fileSize = ?, uploadDate = ?, numRows = ?, numColumns = ?, columns = ?, columnTypes = ?, dateColumn = ?, source = ?
+         WHERE id = ?`,
+        [
+          fileName,
+          fileSize,
+          new Date().toISOString(),
+          data.length,
+          columns.length,
+          JSON.stringify(columns),
+          JSON.stringify(columnTypes),
+          options.dateColumn ?? null,
+          options.source ?? null,
+          fileId
+        ]
+      );
+
+      const previous = await this.readCurrentRows(db, fileId);
+      const incoming = data.map(row => JSON.stringify(row));
+      await this.retireCurrentRows(db, fileId, version);
+      await this.insertRows(db, fileId, data, 0, version);
+      await this.insertRowErrors(db, fileId, version, options.rowErrors ?? []);
+      await materializeTypedValues(db, fileId, columnTypes, version);
+      await this.recordVersion(db, fileId, version, 'replace', this.diffRows(previous, incoming));
+      return true;
+    });
+  }
+
+  /**
+   * Compare an incoming upload's columns against a stored dataset.
+   * Returns a list of human-readable problems; empty when compatible.
+   */
+  checkAppendCompatibility(
+    existing: FileMetadata,
+    columns: string[],
+    columnTypes: Record<string, string>
+  ): string[] {
+    const problems: string[] = [];
+
+    const unknown = columns.filter(col => !existing.columns.includes(col));
+    if (unknown.length > 0) {
+      problems.push(`Unknown columns: ${unknown.join(', ')}`);
+    }
+
+    const missing = existing.columns.filter(col => !columns.includes(col));
+    if (missing.length > 0) {
+      problems.push(`Missing columns: ${missing.join(', ')}`);
+    }
+
+    columns.forEach(col => {
+      const storedType = existing.columnTypes[col];
+      const incomingType = columnTypes[col];
+      // Types guessed from blank cells carry no information
+      const comparable = (type?: string) => type && !['undefined', 'object', 'empty'].includes(type);
+      if (comparable(storedType) && comparable(incomingType) && !TypeInference.areTypesCompatible(storedType, incomingType)) {
+        problems.push(`Column "${col}" is ${incomingType} but the dataset stores ${storedType}`);
+      }
+    });
+
+    return problems;
+  }
+
+  /**
+   * Append rows to an existing dataset, continuing its rowIndex.
+   * When `dedupeKey` is given, rows whose key value already exists (in the
+   * dataset or earlier in the same batch) are skipped. Rows with no key
+   * value (null, missing or blank) are always kept.
+   */
+  async appendFileData(
+    fileId: string,
+    fileSize: number,
+    data: TableRow[],
+    options: { dedupeKey?: string; rowErrors?: RowError[] } = {}
+  ): Promise<AppendResult | null> {
+    return this.withTransaction(async (db) => {
+      const file = await db.get('SELECT numRows, currentVersion, columnTypes FROM files WHERE id = ?', [fileId]);
+      if (!file) return null;
+      const version = file.currentVersion + 1;
+
+      let rows = data;
+      if (options.dedupeKey) {
+        const key = options.dedupeKey;
+        const existingKeys = await db.all<{ value: unknown }[]>(
+          `SELECT json_extract(data, ?) as value FROM data_entries WHERE fileId = ? AND ${CURRENT_ROWS}`,
+          [jsonPath(key), fileId]
+        );
+        const hasKey = (value: unknown) => value !== null && value !== undefined && String(value).trim() !== '';
+        const seen = new Set(existingKeys.filter(row => hasKey(row.value)).map(row => String(row.value)));
+        rows = data.filter(row => {
+          if (!hasKey(row[key])) return true;
+          const value = String(row[key]);
+          if (seen.has(value)) return false;
+          seen.add(value);
+          return true;
+        });
+      }
+
+      const next = await db.get(
+        `SELECT COALESCE(MAX(rowIndex) + 1, 0) as rowIndex FROM data_entries WHERE fileId = ? AND ${CURRENT_ROWS}`,
+        [fileId]
+      );
+      await this.insertRows(db, fileId, rows, next.rowIndex, version);
+      await this.insertRowErrors(db, fileId, version, options.rowErrors ?? []);
+
+      const numRows = file.numRows + rows.length;
+      await db.run(
+        'UPDATE files SET numRows = ?, fileSize = fileSize + ? WHERE id = ?',
+        [numRows, fileSize, fileId]
+      );
+      await materializeTypedValues(db, fileId, JSON.parse(file.columnTypes), version);
+      await this.recordVersion(db, fileId, version, 'append', { rowsAdded: rows.length, rowsRemoved: 0 });
+
+      return { appended: rows.length, skipped: data.length - rows.length, numRows };
+    });
+  }
+
+  /**
+   * Restore the rows, columns and metadata (file name, date column, source)
+   * of an earlier version as a new version. History is kept, so a rollback
+   * can itself be rolled back.
+   */
+  async rollbackFile(fileId: string, targetVersion: number): Promise<FileVersion | null> {
+    return this.withTransaction(async (db) => {
+      const file = await db.get('SELECT currentVersion FROM files WHERE id = ?', [fileId]);
+      const target = await db.get(
+        'SELECT * FROM file_versions WHERE fileId = ? AND version = ?',
+        [fileId, targetVersion]
+      );
+      if (!file || !target) return null;
+      const version = file.currentVersion + 1;
+
+      const previous = await this.readCurrentRows(db, fileId);
+      const restored = await db.all<StoredRow[]>(
+        `SELECT data FROM data_entries
+         WHERE fileId = ? AND versionFrom <= ? AND (versionTo IS NULL OR versionTo > ?)
+         ORDER BY rowIndex`,
+        [fileId, targetVersion, targetVersion]
+      );
+
+      await this.retireCurrentRows(db, fileId, version);
+      await this.insertRows(db, fileId, restored.map(row => JSON.parse(row.data)), 0, version);
+      await db.run(
+        `UPDATE files
+         SET fileName = ?, fileSize = ?, numRows = ?, numColumns = ?, columns = ?, columnTypes = ?, dateColumn = ?, source = ?
+         WHERE id = ?`,
+        [
+          target.fileName,
+          target.fileSize,
+          restored.length,
+          target.numColumns,
+          target.columns,
+          target.columnTypes,
+          target.dateColumn,
+          target.source,
+          fileId
+        ]
+      );
+      await materializeTypedValues(db, fileId, JSON.parse(target.columnTypes), version);
+
+      const diff = this.diffRows(previous, restored.map(row => row.data));
+      await this.recordVersion(db, fileId, version, 'rollback', diff, targetVersion);
+
+      const created = await db.get(
+        'SELECT * FROM file_versions WHERE fileId = ? AND version = ?',
+        [fileId, version]
+      );
+      return this.toFileVersion(created);
+    });
+  }
+
+  async getFileVersions(fileId: string): Promise<FileVersion[]> {
     const db = await this.initialize();
+    const versions = await db.all<StoredVersion[]>(
+      'SELECT * FROM file_versions WHERE fileId = ? ORDER BY version DESC',
+      [fileId]
+    );
+
+    return versions.map(version => this.toFileVersion(version));
+  }
 
-    // Save file metadata
+  async getFileVersion(fileId: string, version: number): Promise<FileVersion | null> {
+    const db = await this.initialize();
+    const row = await db.get(
+      'SELECT * FROM file_versions WHERE fileId = ? AND version = ?',
+      [fileId, version]
+    );
+
+    return row ? this.toFileVersion(row) : null;
+  }
+
+  /**
+   * Snapshot the file's metadata as `version` and make it current.
+   */
+  private async recordVersion(
+    db: Database,
+    fileId: string,
+    version: number,
+    operation: VersionOperation,
+    diff: { rowsAdded: number; rowsRemoved: number },
+    restoredFrom: number | null = null
+  ) {
     await db.run(
-      `INSERT INTO files (id, fileName, fileSize, uploadDate, numRows, numColumns, columns, columnTypes) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        fileId,
-        fileName,
-        fileSize,
-        new Date().toISOString(),
-        data.length,
-        columns.length,
-        JSON.stringify(columns),
-        JSON.stringify(columnTypes)
-      ]
+      `INSERT INTO file_versions (fileId, version, createdAt, operation, fileName, fileSize,
+         numRows, numColumns, columns, columnTypes, dateColumn, source, rowsAdded, rowsRemoved, restoredFrom)
+       SELECT id, ?, ?, ?, fileName, fileSize, numRows, numColumns, columns, columnTypes, dateColumn, source, ?, ?, ?
+       FROM files WHERE id = ?`,
+      [version, new Date().toISOString(), operation, diff.rowsAdded, diff.rowsRemoved, restoredFrom, fileId]
+    );
+    await db.run('UPDATE files SET currentVersion = ? WHERE id = ?', [version, fileId]);
+  }
+
+  private async readCurrentRows(db: Database, fileId: string): Promise<string[]> {
+    const rows = await db.all<StoredRow[]>(
+      `SELECT data FROM data_entries WHERE fileId = ? AND ${CURRENT_ROWS}`,
+      [fileId]
+    );
+    return rows.map(row => row.data);
+  }
+
+  private async retireCurrentRows(db: Database, fileId: string, version: number) {
+    await db.run(
+      `UPDATE data_entries SET versionTo = ? WHERE fileId = ? AND ${CURRENT_ROWS}`,
+      [version, fileId]
     );
+  }
+
+  /**
+   * Count rows added and removed between two versions, treating each
+   * serialized row as a multiset member so reordering is not a change.
+   */
+  private diffRows(before: string[], after: string[]): { rowsAdded: number; rowsRemoved: number } {
+    const remaining = new Map<string, number>();
+    before.forEach(row => remaining.set(row, (remaining.get(row) || 0) + 1));
+
+    let rowsAdded = 0;
+    after.forEach(row => {
+      const count = remaining.get(row) || 0;
+      if (count > 0) {
+        remaining.set(row, count - 1);
+      } else {
+        rowsAdded++;
+      }
+    });
+
+    let rowsRemoved = 0;
+    remaining.forEach(count => {
+      rowsRemoved += count;
+    });
 
-    // Save data rows
-    for (let i = 0; i < data.length; i++) {
-      const row = data[i];
+    return { rowsAdded, rowsRemoved };
+  }
+
+  private toFileVersion(row: StoredVersion): FileVersion {
+    return {
+      ...row,
+      columns: JSON.parse(row.columns),
+      columnTypes: JSON.parse(row.columnTypes)
+    };
+  }
+
+  async renameFile(fileId: string, fileName: string): Promise<FileMetadata | null> {
+    const db = await this.initialize();
+    const result = await db.run('UPDATE files SET fileName = ? WHERE id = ?', [fileName, fileId]);
+    if (!result.changes) return null;
+
+    return this.getFileMetadata(fileId);
+  }
+
+  /**
+   * Delete a dataset and all of its rows.
+   */
+  async deleteFile(fileId: string): Promise<boolean> {
+    return this.withTransaction(async (db) => {
+      await db.run('DELETE FROM data_values WHERE fileId = ?', [fileId]);
+      await db.run('DELETE FROM data_entries WHERE fileId = ?', [fileId]);
+      await db.run('DELETE FROM row_errors WHERE fileId = ?', [fileId]);
+      await db.run('DELETE FROM file_versions WHERE fileId = ?', [fileId]);
+      const result = await db.run('DELETE FROM files WHERE id = ?', [fileId]);
+      return (result.changes ?? 0) > 0;
+    });
+  }
+
+  /**
+   * Run `work` inside a single transaction, rolling back if it throws.
+   * Transactions are queued because every request shares one connection.
+   */
+  async withTransaction<T>(work: (db: Database) => Promise<T>): Promise<T> {
+    const db = await this.initialize();
+
+    const run = async () => {
+      await db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await work(db);
+        await db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        await db.exec('ROLLBACK');
+        throw error;
+      }
+    };
+
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Insert rows in multi-row batches, numbering them from `startIndex` and
+   * tagging them with the version that introduces them.
+   * Must be called inside withTransaction.
+   */
+  private async insertRows(db: Database, fileId: string, rows: TableRow[], startIndex: number, version: number) {
+    const placeholders = (count: number) => Array(count).fill('(?, ?, ?, ?)').join(', ');
+    const sql = (count: number) => `INSERT INTO data_entries (fileId, rowIndex, data, versionFrom) VALUES ${placeholders(count)}`;
+    const paramsFor = (offset: number, count: number) => {
+      const params: unknown[] = [];
+      for (let i = offset; i < offset + count; i++) {
+        params.push(fileId, startIndex + i, JSON.stringify(rows[i]), version);
+      }
+      return params;
+    };
+
+    const fullBatches = Math.floor(rows.length / INSERT_BATCH_SIZE);
+    if (fullBatches > 0) {
+      const statement = await db.prepare(sql(INSERT_BATCH_SIZE));
+      try {
+        for (let batch = 0; batch < fullBatches; batch++) {
+          await statement.run(paramsFor(batch * INSERT_BATCH_SIZE, INSERT_BATCH_SIZE));
+        }
+      } finally {
+        await statement.finalize();
+      }
+    }
+
+    const remaining = rows.length - fullBatches * INSERT_BATCH_SIZE;
+    if (remaining > 0) {
+      await db.run(sql(remaining), paramsFor(fullBatches * INSERT_BATCH_SIZE, remaining));
+    }
+  }
+
+  /**
+   * Store the rows an upload left out, under the version it created.
+   * Must be called inside withTransaction.
+   */
+  private async insertRowErrors(db: Database, fileId: string, version: number, errors: RowError[]) {
+    for (let offset = 0; offset < errors.length; offset += ROW_ERROR_BATCH_SIZE) {
+      const batch = errors.slice(offset, offset + ROW_ERROR_BATCH_SIZE);
       await db.run(
-        `INSERT INTO data_entries (fileId, rowIndex, data) VALUES (?, ?, ?)`,
-        [fileId, i, JSON.stringify(row)]
+        `INSERT INTO row_errors (fileId, version, line, code, message, raw) VALUES ${batch.map(() => '(?, ?, ?, ?, ?, ?)').join(', ')}`,
+        batch.flatMap(error => [fileId, version, error.line, error.code, error.message, error.raw])
       );
     }
   }
 
+  /**
+   * The rows left out of the upload that created `version` of a dataset,
+   * in file order.
+   */
+  async getRowErrors(fileId: string, version: number, options: { offset?: number; limit?: number } = {}): Promise<RowErrorPage> {
+    const db = await this.initialize();
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 100;
+
+    const total = await db.get(
+      'SELECT COUNT(*) as count FROM row_errors WHERE fileId = ? AND version = ?',
+      [fileId, version]
+    );
+    const errors = await db.all(
+      `SELECT line, code, message, raw FROM row_errors
+       WHERE fileId = ? AND version = ?
+       ORDER BY line, id
+       LIMIT ? OFFSET ?`,
+      [fileId, version, limit, offset]
+    );
+
+    return { errors, total: total.count, offset, limit };
+  }
+
   async getAllFiles(): Promise<FileMetadata[]> {
     const db = await this.initialize();
     console.log('Database: Getting all files...');
     
-    const files = await db.all('SELECT * FROM files ORDER BY uploadDate DESC');
+    // Datasets still being streamed in are not listed until complete
+    const files = await db.all(
+      `SELECT ${FILE_COLUMNS} FROM files
+       WHERE id NOT IN (SELECT fileId FROM import_jobs WHERE status = 'running' AND fileId IS NOT NULL)
+       ORDER BY uploadDate DESC`
+    );
     console.log('Database: Found files:', files.length);
     
     const result = files.map((file: any) => ({
@@ -115,14 +848,177 @@ class DatabaseService {
     return result;
   }
 
-  async getFileData(fileId: string): Promise<DataRow[]> {
+  /**
+   * Hold an uploaded file for the preview step, discarding staged uploads
+   * that were abandoned long ago.
+   */
+  async stageUpload(upload: Omit<StagedUpload, 'createdAt'>): Promise<StagedUpload> {
+    const db = await this.initialize();
+    const staged: StagedUpload = { ...upload, createdAt: new Date().toISOString() };
+
+    await db.run('DELETE FROM staged_uploads WHERE createdAt < ?', [
+      new Date(Date.now() - STAGED_UPLOAD_TTL_MS).toISOString()
+    ]);
+    await db.run(
+      `INSERT INTO staged_uploads (id, fileName, fileSize, mode, targetFileId, dedupeKey, sheets, dialect, tolerant, content, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        staged.id,
+        staged.fileName,
+        staged.fileSize,
+        staged.mode,
+        staged.targetFileId,
+        staged.dedupeKey,
+        JSON.stringify(staged.sheets),
+        staged.dialect ? JSON.stringify(staged.dialect) : null,
+        staged.tolerant ? 1 : 0,
+        staged.content,
+        staged.createdAt
+      ]
+    );
+    return staged;
+  }
+
+  async getStagedUpload(id: string): Promise<StagedUpload | null> {
+    const db = await this.initialize();
+    const row = await db.get('SELECT * FROM staged_uploads WHERE id = ?', [id]);
+    if (!row) return null;
+
+    return {
+      ...row,
+      sheets: JSON.parse(row.sheets),
+      dialect: row.dialect ? JSON.parse(row.dialect) : null,
+      tolerant: row.tolerant === 1
+    };
+  }
+
+  async deleteStagedUpload(id: string): Promise<boolean> {
+    const db = await this.initialize();
+    const result = await db.run('DELETE FROM staged_uploads WHERE id = ?', [id]);
+    return (result.changes ?? 0) > 0;
+  }
+
+  /**
+   * Start tracking a streamed import. Imports that stalled mid-way are
+   * failed first and their partial datasets deleted.
+   */
+  async createImportJob(
+    id: string,
+    fileName: string,
+    bytesTotal: number | null,
+    dialect: Partial<CsvDialect> | null = null,
+    tolerant: boolean = false
+  ): Promise<ImportJob> {
+    const db = await this.initialize();
+    const now = new Date().toISOString();
+
+    const stalled = await db.all(
+      `SELECT id, fileId FROM import_jobs WHERE status = 'running' AND updatedAt < ?`,
+      [new Date(Date.now() - STALLED_IMPORT_MS).toISOString()]
+    );
+    for (const job of stalled) {
+      if (job.fileId) await this.deleteFile(job.fileId);
+      await this.updateImportJob(job.id, { status: 'failed', error: 'The import was interrupted' });
+    }
+
+    await db.run(
+      `INSERT INTO import_jobs (id, fileName, fileId, status, bytesTotal, bytesRead, rowsWritten, error, dialect, tolerant, createdAt, updatedAt)
+       VALUES (?, ?, NULL, 'pending', ?, 0, 0, NULL, ?, ?, ?, ?)`,
+      [id, fileName, bytesTotal, dialect ? JSON.stringify(dialect) : null, tolerant ? 1 : 0, now, now]
+    );
+    return (await this.getImportJob(id))!;
+  }
+
+  async getImportJob(id: string): Promise<ImportJob | null> {
+    const db = await this.initialize();
+    const job = await db.get('SELECT * FROM import_jobs WHERE id = ?', [id]);
+    if (!job) return null;
+
+    return { ...job, dialect: job.dialect ? JSON.parse(job.dialect) : null, tolerant: job.tolerant === 1 };
+  }
+
+  async updateImportJob(id: string, update: ImportJobUpdate): Promise<ImportJob | null> {
+    const db = await this.initialize();
+    const fields = Object.keys(update) as (keyof ImportJobUpdate)[];
+    await db.run(
+      `UPDATE import_jobs SET ${fields.map(field => `${field} = ?, `).join('')}updatedAt = ? WHERE id = ?`,
+      [
+        ...fields.map(field => field === 'dialect' && update.dialect ? JSON.stringify(update.dialect) : update[field] ?? null),
+        new Date().toISOString(),
+        id
+      ]
+    );
+    return this.getImportJob(id);
+  }
+
+  /**
+   * Keys (see metricKey) of the current metric rows imported from an app.
+   */
+  async getImportedMetricKeys(source: EntrySource): Promise<Set<string>> {
     const db = await this.initialize();
-    console.log('Database: Getting data for file:', fileId);
-    
     const rows = await db.all(
-      'SELECT data FROM data_entries WHERE fileId = ? ORDER BY rowIndex',
-      [fileId]
+      `SELECT json_extract(de.data, '$.timestamp') as timestamp,
+              json_extract(de.data, '$.metric') as metric,
+              json_extract(de.data, '$.detail') as detail,
+              json_extract(de.data, '$.sourceName') as sourceName
+       FROM data_entries de
+       JOIN files f ON f.id = de.fileId
+       WHERE f.source = ? AND de.${CURRENT_ROWS}`,
+      [source]
+    );
+
+    return new Set(rows.map(metricKey));
+  }
+
+  /**
+   * Keys (see transactionKey) of the current transactions imported from
+   * bank statements.
+   */
+  async getImportedTransactionKeys(): Promise<Set<string>> {
+    const db = await this.initialize();
+    const rows = await db.all(
+      `SELECT json_extract(de.data, '$.account') as account,
+              json_extract(de.data, '$.fitid') as fitid
+       FROM data_entries de
+       JOIN files f ON f.id = de.fileId
+       WHERE f.source = 'bank_statement' AND de.${CURRENT_ROWS}`
     );
+
+    return new Set(rows.map(transactionKey));
+  }
+
+  /**
+   * Datasets created by one upload, in the order they were saved.
+   */
+  async getUploadFiles(uploadId: string): Promise<FileMetadata[]> {
+    const db = await this.initialize();
+    const files = await db.all<StoredFile[]>(`SELECT ${FILE_COLUMNS} FROM files WHERE uploadId = ? ORDER BY rowid`, [uploadId]);
+
+    return files.map(file => ({
+      ...file,
+      columns: JSON.parse(file.columns),
+      columnTypes: JSON.parse(file.columnTypes)
+    }));
+  }
+
+  /**
+   * Rows of a dataset, from the current version unless `version` is given.
+   */
+  async getFileData(fileId: string, version?: number): Promise<DataRow[]> {
+    const db = await this.initialize();
+    console.log('Database: Getting data for file:', fileId, version ? `(version ${version})` : '');
+    
+    const rows = version
+      ? await db.all(
+          `SELECT data FROM data_entries
+           WHERE fileId = ? AND versionFrom <= ? AND (versionTo IS NULL OR versionTo > ?)
+           ORDER BY rowIndex`,
+          [fileId, version, version]
+        )
+      : await db.all(
+          `SELECT data FROM data_entries WHERE fileId = ? AND ${CURRENT_ROWS} ORDER BY rowIndex`,
+          [fileId]
+        );
     
     console.log('Database: Found data rows:', rows.length);
     
@@ -132,9 +1028,115 @@ class DatabaseService {
     return result;
   }
 
+  /**
+   * One page of a dataset's current rows, sorted in SQL by a row field
+   * (or by upload order when no sort column is given).
+   */
+  async getFileRows(fileId: string, options: RowPageOptions = {}): Promise<RowPage> {
+    const db = await this.initialize();
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? 100;
+    const direction = options.dir === 'desc' ? 'DESC' : 'ASC';
+
+    const total = await db.get(
+      `SELECT COUNT(*) as count FROM data_entries WHERE fileId = ? AND ${CURRENT_ROWS}`,
+      [fileId]
+    );
+
+    const params: unknown[] = [fileId];
+    let orderBy = `rowIndex ${direction}`;
+    if (options.sort) {
+      orderBy = `json_extract(data, ?) ${direction}, rowIndex ASC`;
+      params.push(jsonPath(options.sort));
+    }
+    params.push(limit, offset);
+
+    const rows = await db.all<StoredRow[]>(
+      `SELECT data FROM data_entries
+       WHERE fileId = ? AND ${CURRENT_ROWS}
+       ORDER BY ${orderBy}
+       LIMIT ? OFFSET ?`,
+      params
+    );
+
+    return {
+      rows: rows.map(row => JSON.parse(row.data)),
+      total: total.count,
+      offset,
+      limit
+    };
+  }
+
+  /**
+   * Aggregate a numeric column in SQL from the typed data_values table,
+   * optionally restricted to a value range.
+   */
+  async getColumnStats(
+    fileId: string,
+    column: string,
+    range: { min?: number; max?: number } = {}
+  ): Promise<ColumnStats> {
+    const db = await this.initialize();
+    const conditions = ['fileId = ?', '"column" = ?', 'num_value IS NOT NULL'];
+    const params: unknown[] = [fileId, column];
+    if (range.min !== undefined) {
+      conditions.push('num_value >= ?');
+      params.push(range.min);
+    }
+    if (range.max !== undefined) {
+      conditions.push('num_value <= ?');
+      params.push(range.max);
+    }
+
+    // An aggregate without GROUP BY always yields exactly one row
+    const stats = await db.get(
+      `SELECT COUNT(*) as count, SUM(num_value) as sum, AVG(num_value) as avg,
+              MIN(num_value) as min, MAX(num_value) as max
+       FROM data_values
+       WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+    return stats as ColumnStats;
+  }
+
+  /**
+   * Bucket a numeric column by a date column of the same rows, e.g. weekly
+   * distance from a training log. Both columns must be typed.
+   */
+  async getTimeSeries(
+    fileId: string,
+    dateColumn: string,
+    valueColumn: string,
+    options: { bucket?: TimeBucket; start?: string; end?: string } = {}
+  ): Promise<TimeSeriesPoint[]> {
+    const db = await this.initialize();
+    const format = BUCKET_FORMATS[options.bucket ?? 'day'];
+    const conditions = ['d.fileId = ?', 'd."column" = ?', 'd.date_value IS NOT NULL'];
+    const params: unknown[] = [format, valueColumn, fileId, dateColumn];
+    if (options.start) {
+      conditions.push('d.date_value >= datetime(?)');
+      params.push(options.start);
+    }
+    if (options.end) {
+      conditions.push('d.date_value <= datetime(?)');
+      params.push(options.end);
+    }
+
+    return db.all(
+      `SELECT strftime(?, d.date_value) as period, COUNT(v.num_value) as count, SUM(v.num_value) as sum,
+              AVG(v.num_value) as avg, MIN(v.num_value) as min, MAX(v.num_value) as max
+       FROM data_values d
+       JOIN data_values v ON v.entryId = d.entryId AND v."column" = ?
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY period
+       ORDER BY period`,
+      params
+    );
+  }
+
   async getFileMetadata(fileId: string): Promise<FileMetadata | null> {
     const db = await this.initialize();
-    const file = await db.get('SELECT * FROM files WHERE id = ?', [fileId]);
+    const file = await db.get(`SELECT ${FILE_COLUMNS} FROM files WHERE id = ?`, [fileId]);
     
     if (!file) return null;
     
@@ -145,25 +1147,189 @@ class DatabaseService {
     };
   }
 
-  async queryData(query: string): Promise<any[]> {
+  /**
+   * Run a structured query (see QueryBuilder) against the current rows of
+   * every dataset. Without select or aggregates, whole rows are returned
+   * merged with their file's name and upload date.
+   */
+  async queryData(query: DataQuery = {}): Promise<TableRow[]> {
     const db = await this.initialize();
-    
-    // For security, we'll implement a safe query interface
-    // For now, return all data from all files
-    const allData = await db.all(`
-      SELECT f.fileName, f.uploadDate, de.data
-      FROM files f
-      JOIN data_entries de ON f.id = de.fileId
-      ORDER BY f.uploadDate DESC, de.rowIndex
-    `);
-    
-    return allData.map((row: any) => ({
+    const { sql, params, raw } = QueryBuilder.build(query);
+
+    const rows = await db.all<TableRow[]>(sql, params);
+    if (!raw) return rows;
+
+    return rows.map(row => ({
       fileName: row.fileName,
       uploadDate: row.uploadDate,
-      ...JSON.parse(row.data)
+      ...JSON.parse(String(row.data))
     }));
   }
 
+  /**
+   * Save an entry, with the file it was made from (a voice note's
+   * recording, say) when given.
+   */
+  async saveEntry(entry: UnifiedEntry, file?: Omit<EntryFile, 'entryId' | 'createdAt'>): Promise<void> {
+    await this.withTransaction(async (db) => {
+      await db.run(
+        `INSERT INTO entries (id, userId, type, source, content, fileUrl, metadata, timestamp, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.id,
+          entry.userId,
+          entry.type,
+          entry.source,
+          entry.content,
+          entry.fileUrl ?? null,
+          JSON.stringify(entry.metadata ?? {}),
+          entry.timestamp,
+          entry.createdAt,
+          entry.updatedAt
+        ]
+      );
+      if (file) {
+        await db.run(
+          'INSERT INTO entry_files (entryId, fileName, mimeType, content, createdAt) VALUES (?, ?, ?, ?, ?)',
+          [entry.id, file.fileName, file.mimeType, file.content, entry.createdAt]
+        );
+      }
+    });
+  }
+
+  async getEntryFile(entryId: string): Promise<EntryFile | null> {
+    const db = await this.initialize();
+    const row = await db.get('SELECT * FROM entry_files WHERE entryId = ?', [entryId]);
+
+    return row ?? null;
+  }
+
+  async getEntries(query: EntryQuery = {}): Promise<UnifiedEntry[]> {
+    const db = await this.initialize();
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.userId) {
+      conditions.push('userId = ?');
+      params.push(query.userId);
+    }
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.source) {
+      conditions.push('source = ?');
+      params.push(query.source);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(query.limit ?? -1, query.offset ?? 0);
+
+    const rows = await db.all<StoredEntry[]>(
+      `SELECT * FROM entries ${where} ORDER BY timestamp DESC LIMIT ? OFFSET ?`,
+      params
+    );
+
+    return rows.map(row => this.toEntry(row));
+  }
+
+  async getEntry(id: string): Promise<UnifiedEntry | null> {
+    const db = await this.initialize();
+    const row = await db.get('SELECT * FROM entries WHERE id = ?', [id]);
+
+    return row ? this.toEntry(row) : null;
+  }
+
+  async updateEntry(id: string, updates: EntryUpdate): Promise<UnifiedEntry | null> {
+    const existing = await this.getEntry(id);
+    if (!existing) return null;
+
+    const updated: UnifiedEntry = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      userId: existing.userId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    const db = await this.initialize();
+    await db.run(
+      `UPDATE entries
+       SET type = ?, source = ?, content = ?, fileUrl = ?, metadata = ?, timestamp = ?, updatedAt = ?
+       WHERE id = ?`,
+      [
+        updated.type,
+        updated.source,
+        updated.content,
+        updated.fileUrl ?? null,
+        JSON.stringify(updated.metadata ?? {}),
+        updated.timestamp,
+        updated.updatedAt,
+        id
+      ]
+    );
+
+    return updated;
+  }
+
+  async deleteEntry(id: string): Promise<boolean> {
+    return this.withTransaction(async (db) => {
+      await db.run('DELETE FROM entry_files WHERE entryId = ?', [id]);
+      const result = await db.run('DELETE FROM entries WHERE id = ?', [id]);
+
+      return (result.changes ?? 0) > 0;
+    });
+  }
+
+  private toEntry(row: StoredEntry): UnifiedEntry {
+    return {
+      ...row,
+      metadata: JSON.parse(row.metadata)
+    };
+  }
+
+  /**
+   * Full-text search over entry content and NLP text rows, including their
+   * insights and recommendations. Every word must match (as a prefix).
+   */
+  async search(text: string, limit: number = 20): Promise<SearchResult[]> {
+    const match = this.toMatchExpression(text);
+    if (!match) return [];
+
+    const db = await this.initialize();
+    return db.all(
+      `SELECT 'entry' as kind, e.id as id, NULL as fileName, NULL as rowIndex, e.timestamp as timestamp,
+              snippet(entries_fts, -1, '<mark>', '</mark>', '…', 12) as snippet, bm25(entries_fts) as rank
+       FROM entries_fts
+       JOIN entries e ON e.rowid = entries_fts.rowid
+       WHERE entries_fts MATCH ?
+       UNION ALL
+       SELECT 'row' as kind, de.fileId as id, f.fileName as fileName, de.rowIndex as rowIndex, f.uploadDate as timestamp,
+              snippet(rows_fts, -1, '<mark>', '</mark>', '…', 12) as snippet, bm25(rows_fts) as rank
+       FROM rows_fts
+       JOIN data_entries de ON de.id = rows_fts.rowid
+       JOIN files f ON f.id = de.fileId
+       WHERE rows_fts MATCH ?
+       ORDER BY rank
+       LIMIT ?`,
+      [match, match, limit]
+    );
+  }
+
+  /**
+   * Turn free text into a safe FTS5 expression: each word becomes a quoted
+   * prefix term, so user input can never be parsed as query syntax.
+   */
+  private toMatchExpression(text: string): string {
+    return text
+      .split(/\s+/)
+      .map(word => word.replace(/"/g, ''))
+      .filter(word => word.length > 0)
+      .map(word => `"${word}"*`)
+      .join(' ');
+  }
+
   async getDataSummary(): Promise<{
     totalFiles: number;
     totalRows: number;
@@ -173,7 +1339,7 @@ class DatabaseService {
     const db = await this.initialize();
     
     const totalFiles = await db.get('SELECT COUNT(*) as count FROM files');
-    const totalRows = await db.get('SELECT COUNT(*) as count FROM data_entries');
+    const totalRows = await db.get(`SELECT COUNT(*) as count FROM data_entries WHERE ${CURRENT_ROWS}`);
     const dateRange = await db.get(`
       SELECT 
         MIN(uploadDate) as start,
@@ -1,3 +1,7 @@
+import { isNumericType } from './typedValues';
+import { TransactionRow, isTransactionTable } from './transactions';
+import { CalendarEventRow, isCalendarTable, isMeeting } from './calendarEvents';
+
 export interface DomainInsight {
   type: 'financial' | 'sports' | 'health' | 'productivity' | 'social' | 'general';
   category: string;
@@ -24,6 +28,12 @@ export interface CrossDatasetInsight {
   recommendation: string;
 }
 
+// Working hours and the shortest free stretch that counts as focus time,
+// in minutes, for calendar insights
+const WORKDAY_START = 9 * 60;
+const WORKDAY_END = 17 * 60;
+const FOCUS_BLOCK = 90;
+
 export class DomainAnalyzer {
   /**
    * Detect the domain of the dataset
@@ -35,6 +45,17 @@ export class DomainAnalyzer {
     
     const indicators = this.getDomainIndicators(data, columns, columnTypes);
     console.log('DomainAnalyzer: Indicators found:', indicators);
+
+    // Imported calendars are productivity data whatever their event titles say
+    if (isCalendarTable(columns)) {
+      console.log('DomainAnalyzer: Detected calendar events');
+      return {
+        type: 'productivity',
+        confidence: 0.95,
+        indicators,
+        columns
+      };
+    }
     
     // Financial domain detection
     if (this.isFinancialData(indicators, columns)) {
@@ -116,12 +137,18 @@ export class DomainAnalyzer {
    * Generate financial insights
    */
   private static generateFinancialInsights(data: any[], columns: string[], columnTypes: Record<string, string>): DomainInsight[] {
+    // Imported bank statements have a known schema; no need to guess. Their
+    // amounts are signed, which the totals below would net out.
+    if (isTransactionTable(columns)) {
+      return this.generateTransactionInsights(data);
+    }
+
     const insights: DomainInsight[] = [];
-    
+
     // Find money-related columns
     const moneyColumns = columns.filter(col => 
       this.isMoneyColumn(col, data) || 
-      (columnTypes[col] === 'number' && this.hasMoneyValues(data, col))
+      (isNumericType(columnTypes[col]) && this.hasMoneyValues(data, col))
     );
     
     const dateColumns = columns.filter(col => this.isDateColumn(data, col));
@@ -213,6 +240,54 @@ export class DomainAnalyzer {
     return insights;
   }
 
+  /**
+   * Money in and out, and where it went, for bank statement transactions
+   */
+  private static generateTransactionInsights(data: TransactionRow[]): DomainInsight[] {
+    const insights: DomainInsight[] = [];
+    const amounts = data.map(row => Number(row.amount)).filter(amount => !isNaN(amount));
+    if (amounts.length === 0) return insights;
+
+    const moneyIn = amounts.filter(amount => amount > 0).reduce((sum, amount) => sum + amount, 0);
+    const moneyOut = -amounts.filter(amount => amount < 0).reduce((sum, amount) => sum + amount, 0);
+    const net = moneyIn - moneyOut;
+
+    insights.push({
+      type: 'financial',
+      category: 'cash_flow',
+      title: 'Money In vs Out',
+      description: `${this.formatMoney(moneyIn)} came in and ${this.formatMoney(moneyOut)} went out, a net ${net >= 0 ? 'gain' : 'loss'} of ${this.formatMoney(Math.abs(net))}`,
+      value: { moneyIn, moneyOut, net, transactions: amounts.length },
+      confidence: 0.95,
+      priority: 'high',
+      recommendation: net < 0 ? 'Spending exceeded income over this period. Review the largest payees for savings.' : undefined
+    });
+
+    const spendingByPayee = new Map<string, number>();
+    data.forEach(row => {
+      const amount = Number(row.amount);
+      if (isNaN(amount) || amount >= 0) return;
+      const payee = String(row.payee || 'Unknown payee');
+      spendingByPayee.set(payee, (spendingByPayee.get(payee) ?? 0) - amount);
+    });
+    const topPayees = [...spendingByPayee.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5);
+
+    if (topPayees.length > 0 && moneyOut > 0) {
+      const [payee, total] = topPayees[0];
+      insights.push({
+        type: 'financial',
+        category: 'spending',
+        title: 'Top Payees',
+        description: `Your largest payee is ${payee} with ${this.formatMoney(total)} (${Math.round(total / moneyOut * 100)}% of spending)`,
+        value: { topPayees: topPayees.map(([name, amount]) => ({ payee: name, amount })) },
+        confidence: 0.9,
+        priority: 'medium'
+      });
+    }
+
+    return insights;
+  }
+
   /**
    * Generate sports insights
    */
@@ -222,7 +297,7 @@ export class DomainAnalyzer {
     // Find sports-related columns
     const performanceColumns = columns.filter(col => 
       this.isSportsPerformanceColumn(col) || 
-      (columnTypes[col] === 'number' && this.hasSportsValues(data, col))
+      (isNumericType(columnTypes[col]) && this.hasSportsValues(data, col))
     );
     
     const dateColumns = columns.filter(col => this.isDateColumn(data, col));
@@ -285,7 +360,7 @@ export class DomainAnalyzer {
     // Find health-related columns
     const healthColumns = columns.filter(col => 
       this.isHealthColumn(col) || 
-      (columnTypes[col] === 'number' && this.hasHealthValues(data, col))
+      (isNumericType(columnTypes[col]) && this.hasHealthValues(data, col))
     );
     
     healthColumns.forEach(healthCol => {
@@ -313,11 +388,15 @@ export class DomainAnalyzer {
    */
   private static generateProductivityInsights(data: any[], columns: string[], columnTypes: Record<string, string>): DomainInsight[] {
     const insights: DomainInsight[] = [];
+
+    if (isCalendarTable(columns)) {
+      return this.generateCalendarInsights(data);
+    }
     
     // Find productivity-related columns
     const productivityColumns = columns.filter(col => 
       this.isProductivityColumn(col) || 
-      (columnTypes[col] === 'number' && this.hasProductivityValues(data, col))
+      (isNumericType(columnTypes[col]) && this.hasProductivityValues(data, col))
     );
     
     productivityColumns.forEach(prodCol => {
@@ -341,6 +420,92 @@ export class DomainAnalyzer {
     return insights;
   }
 
+  /**
+   * Meeting load and focus time for imported calendar events
+   */
+  private static generateCalendarInsights(data: CalendarEventRow[]): DomainInsight[] {
+    const insights: DomainInsight[] = [];
+    const timed = data.filter(row => !row.all_day && Number(row.duration_min) > 0 && /^\d{4}-\d{2}-\d{2}$/.test(row.date));
+    if (timed.length === 0) return insights;
+
+    const weekOf = (date: string) => {
+      const day = new Date(`${date}T00:00:00Z`);
+      return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * 86400000).toISOString().slice(0, 10);
+    };
+    const weeks = new Set(timed.map(row => weekOf(row.date))).size;
+    const meetings = timed.filter(isMeeting);
+    const meetingMinutes = meetings.reduce((sum, row) => sum + Number(row.duration_min), 0);
+    const scheduledMinutes = timed.reduce((sum, row) => sum + Number(row.duration_min), 0);
+    const meetingHoursPerWeek = meetingMinutes / 60 / weeks;
+
+    insights.push({
+      type: 'productivity',
+      category: 'meetings',
+      title: 'Meeting Load',
+      description: `You spend ${meetingHoursPerWeek.toFixed(1)} hours a week in ${meetings.length} meetings, ${Math.round(meetingMinutes / scheduledMinutes * 100)}% of your scheduled time`,
+      value: { meetingHoursPerWeek, meetings: meetings.length, meetingMinutes, scheduledMinutes, weeks },
+      confidence: 0.9,
+      priority: 'high',
+      recommendation: meetingHoursPerWeek > 15 ? 'Meetings take a large share of your week. Consider declining or shortening recurring ones.' : undefined
+    });
+
+    const byTimeOfDay: Record<string, number> = {};
+    meetings.forEach(row => {
+      byTimeOfDay[row.time_of_day] = (byTimeOfDay[row.time_of_day] || 0) + Number(row.duration_min);
+    });
+    const busiest = Object.entries(byTimeOfDay).sort((a, b) => b[1] - a[1])[0];
+    if (busiest) {
+      insights.push({
+        type: 'productivity',
+        category: 'meetings',
+        title: 'Busiest Time of Day',
+        description: `Most of your meeting time falls in the ${busiest[0]}`,
+        value: { byTimeOfDay },
+        confidence: 0.8,
+        priority: 'medium'
+      });
+    }
+
+    // Free stretches of working hours on weekdays between the first and last event
+    const busyByDay = new Map<string, [number, number][]>();
+    timed.forEach(row => {
+      const [hours, minutes] = String(row.start_time).split(':').map(Number);
+      if (isNaN(hours) || isNaN(minutes)) return;
+      const start = hours * 60 + minutes;
+      if (!busyByDay.has(row.date)) busyByDay.set(row.date, []);
+      busyByDay.get(row.date)!.push([start, start + Number(row.duration_min)]);
+    });
+    const dates = [...busyByDay.keys()].sort();
+    let workdays = 0;
+    let focusMinutes = 0;
+    for (let day = new Date(`${dates[0]}T00:00:00Z`); day.toISOString().slice(0, 10) <= dates[dates.length - 1]; day = new Date(day.getTime() + 86400000)) {
+      if (day.getUTCDay() === 0 || day.getUTCDay() === 6) continue;
+      workdays++;
+      const busy = (busyByDay.get(day.toISOString().slice(0, 10)) ?? []).sort((a, b) => a[0] - b[0]);
+      let free = WORKDAY_START;
+      for (const [start, end] of [...busy, [WORKDAY_END, WORKDAY_END] as [number, number]]) {
+        const gap = Math.min(start, WORKDAY_END) - free;
+        if (gap >= FOCUS_BLOCK) focusMinutes += gap;
+        free = Math.max(free, Math.min(end, WORKDAY_END));
+      }
+    }
+    if (workdays > 0) {
+      const focusHoursPerDay = focusMinutes / 60 / workdays;
+      insights.push({
+        type: 'productivity',
+        category: 'focus',
+        title: 'Focus Time',
+        description: `You have ${focusHoursPerDay.toFixed(1)} hours of uninterrupted time (blocks of ${FOCUS_BLOCK} minutes or more) per workday`,
+        value: { focusHoursPerDay, focusMinutes, workdays },
+        confidence: 0.75,
+        priority: 'high',
+        recommendation: focusHoursPerDay < 2 ? 'Block out time in your calendar for deep work.' : undefined
+      });
+    }
+
+    return insights;
+  }
+
   /**
    * Generate general insights
    */
@@ -349,7 +514,7 @@ export class DomainAnalyzer {
     
     // Basic statistical insights
     columns.forEach(col => {
-      if (columnTypes[col] === 'number') {
+      if (isNumericType(columnTypes[col])) {
         const values = data.map(row => row[col]).filter(v => v !== null && !isNaN(v));
         if (values.length > 0) {
           const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
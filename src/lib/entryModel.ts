@@ -1,10 +1,28 @@
 export type EntryType = 'text' | 'voice' | 'file' | 'api' | 'image';
-export type EntrySource = 'manual' | 'upload' | 'apple_health' | 'google_fit' | 'api' | 'other';
+export type EntrySource = 'manual' | 'upload' | 'apple_health' | 'google_fit' | 'bank_statement' | 'calendar' | 'api' | 'other';
+
+export const ENTRY_TYPES: EntryType[] = ['text', 'voice', 'file', 'api', 'image'];
+export const ENTRY_SOURCES: EntrySource[] = [
+  'manual', 'upload', 'apple_health', 'google_fit', 'bank_statement', 'calendar', 'api', 'other'
+];
+
+/**
+ * When a word of a voice note's transcript is spoken, in seconds from the
+ * start of the recording.
+ */
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
 
 export interface EntryMetadata {
   filename?: string | null;
   mimetype?: string | null;
   duration?: number | null; // For audio/video
+  words?: WordTiming[];     // For voice notes: timings of the transcript's words
+  language?: string | null; // For voice notes: the spoken language, when known
+  transcriber?: string;     // For voice notes: the speech-to-text backend used
   extractedData?: any;      // For structured/parsed data
   raw?: any;                // Raw data if needed
 }
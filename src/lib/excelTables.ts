@@ -0,0 +1,358 @@
+import * as ExcelJS from 'exceljs';
+import { csvColumnNames } from './csvRows';
+import { TableRow } from './fileParser';
+
+/**
+ * A filled cell of a worksheet.
+ */
+interface GridCell {
+  value: unknown;                           // Display value
+  master?: { row: number; col: number };    // Top-left cell of the merged range the cell is part of
+  formula?: string;
+}
+
+// Filled cells by sheet row and column number
+type Grid = GridCell[][];
+
+/**
+ * A block of cells, in sheet row and column numbers.
+ */
+interface Region {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+  cells: number;   // Filled cells in the block
+}
+
+export interface TableDetectionOptions {
+  headerRow?: number;   // First header row to use instead of detecting it
+  range?: string;       // Cells to look for the table in, e.g. B3:F40
+}
+
+export interface SheetTable {
+  headerRow: number;    // First row of the header
+  columns: string[];
+  data: TableRow[];
+  range: string;        // Cells the table was read from, e.g. B3:F40
+}
+
+// Rows a merged header may span
+const MAX_HEADER_ROWS = 3;
+// Blank columns between two blocks of the same rows that still make one table
+const MAX_SPACER_COLUMNS = 1;
+// Excel's column limit, for numbering cells
+const MAX_COLUMNS = 16384;
+
+// Labels of summary rows, e.g. "Total", "Grand total:" or "Subtotal"
+const TOTAL_LABEL = /^(grand\s+|sub-?)?totals?:?$|^(sum|average|avg|mean):?$/i;
+// Formulas of summary cells, e.g. SUM(B2:B20)
+const AGGREGATE_FORMULA = /^(SUM|SUBTOTAL|AVERAGE|COUNTA?|MIN|MAX)\(/i;
+const CELL_RANGE = /^([A-Z]{1,3})([1-9]\d*):([A-Z]{1,3})([1-9]\d*)$/i;
+
+export class ExcelTableDetector {
+  /**
+   * Find the table of a worksheet. The sheet is split into blocks of cells
+   * bounded by blank rows and columns (a single blank spacer column or row
+   * inside a table does not split it), and the largest block is the table;
+   * title blocks, notes and other tables beside it are left out. The header
+   * is the block's first row that labels most of its columns, and runs on
+   * over the rows below while they are merged into it or sub-label its
+   * group headers, their labels joined into one name per column ("Revenue
+   * Q1"). Total rows are left out. Returns null when the sheet has no table.
+   */
+  static detect(worksheet: ExcelJS.Worksheet, options: TableDetectionOptions, warnings: string[]): SheetTable | null {
+    const grid = this.readGrid(worksheet);
+    const bounds = options.range !== undefined
+      ? this.parseRange(options.range)
+      : { top: 1, left: 1, bottom: worksheet.rowCount, right: worksheet.columnCount, cells: 0 };
+    if (!bounds) throw new Error(`Invalid range ${options.range}`);
+    const { headerRow: givenHeaderRow } = options;
+    if (givenHeaderRow !== undefined && (givenHeaderRow < bounds.top || givenHeaderRow > bounds.bottom)) {
+      throw new Error(`Header row ${givenHeaderRow} of sheet ${worksheet.name} is outside range ${options.range}`);
+    }
+
+    const regions = this.findRegions(grid, bounds);
+    let region: Region | undefined;
+    if (givenHeaderRow !== undefined) {
+      // The block around the header row, or everything below it when the row is blank
+      const around = this.largest(regions.filter(block => block.top <= givenHeaderRow && givenHeaderRow <= block.bottom));
+      region = { ...(around ?? bounds), top: givenHeaderRow };
+    } else {
+      region = this.largest(regions);
+    }
+    if (!region) return null;
+    const table = region;
+
+    const headerRow = givenHeaderRow ?? this.findHeaderRow(grid, table);
+    if (headerRow === undefined) return null;
+    // Blank spacer columns are dropped
+    const columns = this.filledColumns(grid, { ...table, top: headerRow });
+    if (columns.length === 0) return null;
+    let headerEnd = headerRow;
+    // At least one row is left below the header for data
+    while (headerEnd - headerRow + 1 < MAX_HEADER_ROWS && headerEnd + 1 < table.bottom && this.continuesHeader(grid, headerEnd, columns)) {
+      headerEnd++;
+    }
+    const names = csvColumnNames(columns.map(col => this.columnName(grid, headerRow, headerEnd, columns, col)), warnings);
+
+    const data: TableRow[] = [];
+    const totalRows: number[] = [];
+    let lastRow = headerEnd;
+    for (let row = headerEnd + 1; row <= table.bottom; row++) {
+      const cells = columns.map(col => grid[row]?.[col]);
+      if (cells.every(cell => cell === undefined)) continue;
+      if (this.isTotalRow(cells)) {
+        totalRows.push(row);
+        continue;
+      }
+
+      const record: TableRow = {};
+      cells.forEach((cell, i) => {
+        if (cell) record[names[i]] = cell.value;
+      });
+      data.push(record);
+      lastRow = row;
+    }
+
+    if (totalRows.length > 0) {
+      warnings.push(`Sheet ${worksheet.name}: ${totalRows.length} total rows were left out (row ${totalRows.join(', ')})`);
+    }
+    const others = regions.filter(block => !this.overlaps(block, table) && block.bottom > block.top && block.right > block.left);
+    if (others.length > 0) {
+      warnings.push(`Sheet ${worksheet.name} has other tables at ${others.map(block => this.formatRange(block)).join(', ')}; give a range to import one of them`);
+    }
+
+    const range = this.formatRange({ top: headerRow, left: columns[0], bottom: lastRow, right: columns[columns.length - 1] });
+    return { headerRow, columns: names, data, range };
+  }
+
+  /**
+   * Display value of an ExcelJS cell.
+   */
+  static getCellDisplayValue(cellValue: ExcelJS.CellValue): unknown {
+    if (cellValue == null) return '';
+    if (typeof cellValue === 'object') {
+      // Formula cell
+      if ('formula' in cellValue) {
+        if ('result' in cellValue) return this.getCellDisplayValue(cellValue.result);
+        return `=${cellValue.formula}`;
+      }
+      // Rich text
+      if ('richText' in cellValue && Array.isArray(cellValue.richText)) {
+        return cellValue.richText.map(part => part.text).join('');
+      }
+      // Date
+      if (cellValue instanceof Date) {
+        return cellValue.toISOString().split('T')[0];
+      }
+    }
+    return cellValue;
+  }
+
+  /**
+   * Read an A1-style range such as B3:F40 (corners in either order).
+   * Returns null when the text is not a range.
+   */
+  static parseRange(range: string): Region | null {
+    const match = range.trim().match(CELL_RANGE);
+    if (!match) return null;
+    const [from, to] = [this.columnNumber(match[1]), this.columnNumber(match[3])];
+    const [first, last] = [Number(match[2]), Number(match[4])];
+    if (from > MAX_COLUMNS || to > MAX_COLUMNS) return null;
+    return { top: Math.min(first, last), left: Math.min(from, to), bottom: Math.max(first, last), right: Math.max(from, to), cells: 0 };
+  }
+
+  private static readGrid(worksheet: ExcelJS.Worksheet): Grid {
+    const grid: Grid = [];
+    worksheet.eachRow((row, rowNumber) => {
+      row.eachCell((cell, colNumber) => {
+        const value = this.getCellDisplayValue(cell.value);
+        if (value === '' || (typeof value === 'string' && value.trim() === '')) return;
+
+        const entry: GridCell = { value };
+        if (cell.type === ExcelJS.ValueType.Merge) {
+          entry.master = { row: cell.master.fullAddress.row, col: cell.master.fullAddress.col };
+        } else if (cell.type === ExcelJS.ValueType.Formula) {
+          entry.formula = cell.formula;
+        }
+        (grid[rowNumber] ??= [])[colNumber] = entry;
+      });
+    });
+    return grid;
+  }
+
+  /**
+   * Blocks of touching filled cells (diagonals included) within the
+   * bounds, joined when they make one table.
+   */
+  private static findRegions(grid: Grid, bounds: Region): Region[] {
+    const inBounds = (row: number, col: number) =>
+      row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right && grid[row]?.[col] !== undefined;
+    const seen = new Set<number>();
+    const regions: Region[] = [];
+
+    grid.forEach((cells, row) => cells.forEach((_, col) => {
+      if (!inBounds(row, col) || seen.has(row * MAX_COLUMNS + col)) return;
+      const region: Region = { top: row, left: col, bottom: row, right: col, cells: 0 };
+      const stack = [[row, col]];
+      seen.add(row * MAX_COLUMNS + col);
+      while (stack.length > 0) {
+        const [r, c] = stack.pop()!;
+        region.cells++;
+        region.top = Math.min(region.top, r);
+        region.bottom = Math.max(region.bottom, r);
+        region.left = Math.min(region.left, c);
+        region.right = Math.max(region.right, c);
+        for (let nr = r - 1; nr <= r + 1; nr++) {
+          for (let nc = c - 1; nc <= c + 1; nc++) {
+            if (inBounds(nr, nc) && !seen.has(nr * MAX_COLUMNS + nc)) {
+              seen.add(nr * MAX_COLUMNS + nc);
+              stack.push([nr, nc]);
+            }
+          }
+        }
+      }
+      regions.push(region);
+    }));
+
+    for (let joined = true; joined;) {
+      joined = false;
+      for (let i = 0; i < regions.length && !joined; i++) {
+        for (let j = i + 1; j < regions.length && !joined; j++) {
+          if (!this.belongTogether(grid, regions[i], regions[j])) continue;
+          const [a, b] = [regions[i], regions[j]];
+          regions[i] = {
+            top: Math.min(a.top, b.top),
+            left: Math.min(a.left, b.left),
+            bottom: Math.max(a.bottom, b.bottom),
+            right: Math.max(a.right, b.right),
+            cells: a.cells + b.cells
+          };
+          regions.splice(j, 1);
+          joined = true;
+        }
+      }
+    }
+    return regions;
+  }
+
+  /**
+   * Blocks overlap around a gap in an irregular table; blocks of the same
+   * rows are one table split by a spacer column, as are blocks under one
+   * another split by a blank row, unless the lower one starts with a header
+   * of its own (or the upper one is a title line).
+   */
+  private static belongTogether(grid: Grid, a: Region, b: Region): boolean {
+    if (this.overlaps(a, b)) return true;
+    if (a.top === b.top && a.bottom === b.bottom) {
+      return Math.max(a.left, b.left) - Math.min(a.right, b.right) - 1 <= MAX_SPACER_COLUMNS;
+    }
+    const [upper, lower] = a.top < b.top ? [a, b] : [b, a];
+    const sameColumns = (lower.left >= upper.left && lower.right <= upper.right)
+      || (upper.left >= lower.left && upper.right <= lower.right);
+    if (!sameColumns || lower.top - upper.bottom !== 2) return false;
+    if (!this.isTextRow(grid, lower.top, lower)) return true;
+    return upper.bottom > upper.top && this.isTextRow(grid, upper.bottom, upper);
+  }
+
+  private static overlaps(a: Omit<Region, 'cells'>, b: Omit<Region, 'cells'>): boolean {
+    return a.top <= b.bottom && b.top <= a.bottom && a.left <= b.right && b.left <= a.right;
+  }
+
+  private static largest(regions: Region[]): Region | undefined {
+    return regions.reduce<Region | undefined>((best, region) => (!best || region.cells > best.cells ? region : best), undefined);
+  }
+
+  private static filledColumns(grid: Grid, region: Region): number[] {
+    const columns = new Set<number>();
+    for (let row = region.top; row <= region.bottom; row++) {
+      grid[row]?.forEach((_, col) => {
+        if (col >= region.left && col <= region.right) columns.add(col);
+      });
+    }
+    return [...columns].sort((a, b) => a - b);
+  }
+
+  /**
+   * The first row with at least two labels covering half the table's
+   * columns, so a title merged across the table is not taken for it.
+   */
+  private static findHeaderRow(grid: Grid, region: Region): number | undefined {
+    const columns = this.filledColumns(grid, region);
+    for (let row = region.top; row <= region.bottom; row++) {
+      const cells = columns.flatMap(col => grid[row]?.[col] ?? []);
+      const labels = cells.filter(cell => cell.master === undefined).length;
+      if (labels >= 2 && cells.length * 2 >= columns.length) return row;
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the header goes on into the next row: a row of labels under
+   * group labels merged across its columns, next to labels merged down
+   * into it, or filling the gaps to the right of unmerged group labels.
+   */
+  private static continuesHeader(grid: Grid, row: number, columns: number[]): boolean {
+    const current = columns.map(col => grid[row]?.[col]);
+    const below = columns.map(col => grid[row + 1]?.[col]);
+    if (!below.some(cell => cell !== undefined) || !below.every(cell => cell === undefined || typeof cell.value === 'string')) {
+      return false;
+    }
+    if (below.some(cell => cell?.master !== undefined && cell.master.row <= row)) return true;
+    if (current.some((cell, i) => cell?.master?.row === row && below[i] !== undefined)) return true;
+    return current.some((cell, i) => cell === undefined && below[i] !== undefined)
+      && current.some((cell, i) => cell !== undefined && below[i] === undefined);
+  }
+
+  /**
+   * The labels of a column's header rows joined, e.g. "Revenue Q1". An
+   * unmerged group label also covers the sub-labelled columns to its right.
+   */
+  private static columnName(grid: Grid, headerRow: number, headerEnd: number, columns: number[], col: number): string {
+    const parts: string[] = [];
+    for (let row = headerRow; row <= headerEnd; row++) {
+      let cell = grid[row]?.[col];
+      for (let i = columns.indexOf(col) - 1; !cell && row < headerEnd && grid[headerEnd]?.[col] && i >= 0; i--) {
+        if (!grid[headerEnd]?.[columns[i]]) break;
+        cell = grid[row]?.[columns[i]];
+      }
+      const label = cell ? String(cell.value).trim() : '';
+      // Labels merged down appear in each row they cover
+      if (label !== '' && parts[parts.length - 1] !== label) parts.push(label);
+    }
+    return parts.length > 0 ? parts.join(' ') : `Column${col}`;
+  }
+
+  /**
+   * A row labelled as a total, or whose values are all sums (or other
+   * aggregates) of the rows above.
+   */
+  private static isTotalRow(cells: (GridCell | undefined)[]): boolean {
+    const filled = cells.filter((cell): cell is GridCell => cell !== undefined);
+    if (typeof filled[0].value === 'string' && TOTAL_LABEL.test(filled[0].value.trim())) return true;
+    const values = filled.filter(cell => typeof cell.value !== 'string');
+    return values.length > 0 && values.every(cell => cell.formula !== undefined && AGGREGATE_FORMULA.test(cell.formula));
+  }
+
+  private static isTextRow(grid: Grid, row: number, region: Region): boolean {
+    const cells = (grid[row] ?? []).filter((_, col) => col >= region.left && col <= region.right);
+    return cells.length > 0 && cells.every(cell => typeof cell.value === 'string');
+  }
+
+  private static formatRange(region: Omit<Region, 'cells'>): string {
+    return `${this.columnLetters(region.left)}${region.top}:${this.columnLetters(region.right)}${region.bottom}`;
+  }
+
+  private static columnLetters(col: number): string {
+    let letters = '';
+    for (let n = col; n > 0; n = Math.floor((n - 1) / 26)) {
+      letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+  }
+
+  private static columnNumber(letters: string): number {
+    return letters.toUpperCase().split('').reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0);
+  }
+}
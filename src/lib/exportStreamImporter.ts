@@ -0,0 +1,148 @@
+import unzipper from 'unzipper';
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { StringDecoder } from 'string_decoder';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService, ImportJob } from './database';
+import { ColumnMapping } from './columnMapping';
+import { EntrySource } from './entryModel';
+import { StreamedImport } from './csvStreamImporter';
+import { TableRow } from './fileParser';
+import { AppleHealthImporter } from './appleHealthImporter';
+import { ArchiveFile, GoogleFitImporter } from './googleFitImporter';
+import { MetricRow, metricKey, metricTable } from './healthMetrics';
+
+// Metric rows written per transaction
+const STREAM_BATCH_ROWS = 5000;
+
+export class ExportStreamImporter {
+  /**
+   * Whether a streamed upload is an app export (read by ingest) rather
+   * than a CSV file.
+   */
+  static handles(fileName: string): boolean {
+    return /\.(xml|zip)$/i.test(fileName);
+  }
+
+  /**
+   * Import an Apple Health export (export.xml or export.zip) or a Google
+   * Takeout archive straight from an upload stream into a new dataset, for
+   * exports too large to buffer. Archives are read entry by entry as they
+   * arrive: export.xml is parsed on the way and its rows written in
+   * batches, the Fit files of a Takeout archive are kept and read at the
+   * end, and every other file is skipped. Progress is recorded on the
+   * import job as for CsvStreamImporter; on failure the partial dataset is
+   * deleted. Rows keep the export's order. As for buffered uploads, rows
+   * imported before from the same app are skipped.
+   */
+  static async ingest(body: ReadableStream<Uint8Array>, job: ImportJob): Promise<Omit<StreamedImport, 'dialect'>> {
+    const warnings: string[] = [];
+    const rows: MetricRow[] = [];
+    let imported: Set<string> | null = null;   // Keys of the app's stored rows, read at the first batch
+    let fileId: string | null = null;
+    let rowsParsed = 0;
+    let rowsSkipped = 0;
+    let rowsWritten = 0;
+    let bytesRead = 0;
+
+    const flush = async (source: EntrySource) => {
+      imported ??= await databaseService.getImportedMetricKeys(source);
+      const parsed = rows.splice(0);
+      rowsParsed += parsed.length;
+      const fresh = parsed.filter(row => !imported!.has(metricKey(row)));
+      rowsSkipped += parsed.length - fresh.length;
+      if (fresh.length === 0) return;
+
+      let batch: TableRow[] = fresh;
+      if (fileId === null) {
+        const { table, errors } = ColumnMapping.apply(metricTable(fresh, source));
+        if (!table) throw new Error(errors.join('; '));
+        batch = table.data;
+        fileId = uuidv4();
+        await databaseService.beginFileData(fileId, job.fileName, table.columns, table.columnTypes, {
+          dateColumn: table.dateColumn,
+          source: table.source
+        });
+        await databaseService.updateImportJob(job.id, { fileId });
+      }
+
+      await databaseService.appendStreamedRows(fileId, batch, rowsWritten, bytesRead);
+      rowsWritten += batch.length;
+      await databaseService.updateImportJob(job.id, { bytesRead, rowsWritten });
+      console.log(`Streamed import ${job.id}: ${rowsWritten} rows, ${bytesRead} bytes`);
+    };
+
+    // Parsing waits while a batch is written, so the upload is read no faster than it is stored
+    const readHealthXml = async (xml: AsyncIterable<Buffer>) => {
+      const skipped: Record<string, number> = {};
+      const parser = AppleHealthImporter.reader(rows, skipped);
+      const decoder = new StringDecoder('utf8');
+      for await (const chunk of xml) {
+        parser.write(decoder.write(chunk));
+        if (rows.length >= STREAM_BATCH_ROWS) await flush('apple_health');
+      }
+      parser.write(decoder.end());
+      parser.close();
+
+      AppleHealthImporter.warnSkipped(skipped, warnings);
+      if (rowsParsed === 0 && rows.length === 0) {
+        throw new Error('No steps, heart rate, body mass, sleep or workout records found');
+      }
+    };
+
+    try {
+      const source = Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+      const upload = Readable.from((async function* () {
+        for await (const chunk of source) {
+          bytesRead += chunk.length;
+          yield chunk as Buffer;
+        }
+      })());
+
+      let format: EntrySource = 'apple_health';
+      if (job.fileName.toLowerCase().endsWith('.zip')) {
+        let healthXml = false;
+        const fitFiles: ArchiveFile[] = [];
+        for await (const entry of upload.pipe(unzipper.Parse({ forceStream: true }))) {
+          const file = entry as unzipper.Entry;
+          if (!healthXml && AppleHealthImporter.isExportXml(file.path)) {
+            healthXml = true;
+            await readHealthXml(file);
+          } else if (GoogleFitImporter.isFitFile(file.path)) {
+            const text = (await file.buffer()).toString('utf-8');
+            fitFiles.push({ name: file.path, text: async () => text });
+          } else {
+            file.autodrain();
+          }
+        }
+
+        if (!healthXml) {
+          if (fitFiles.length === 0) throw new Error('The archive is not an Apple Health or Google Takeout export');
+          format = 'google_fit';
+          rows.push(...(await GoogleFitImporter.parseFiles(fitFiles, warnings)).data as MetricRow[]);
+        }
+      } else {
+        await readHealthXml(upload);
+      }
+
+      await flush(format);
+      if (fileId === null) throw new Error('Everything in this file was imported before');
+      if (rowsSkipped > 0) warnings.push(`${rowsSkipped} rows were imported before and were skipped`);
+      await databaseService.finishFileData(fileId);
+      await databaseService.updateImportJob(job.id, { status: 'done', bytesRead, rowsWritten });
+      console.log(`Streamed import ${job.id} done: ${rowsWritten} rows in dataset ${fileId}`);
+
+      return { dataset: (await databaseService.getFileMetadata(fileId))!, warnings };
+    } catch (error) {
+      console.error(`Streamed import ${job.id} failed:`, error);
+      if (fileId !== null) await databaseService.deleteFile(fileId);
+      await databaseService.updateImportJob(job.id, {
+        status: 'failed',
+        fileId: null,
+        bytesRead,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
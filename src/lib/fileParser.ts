@@ -0,0 +1,376 @@
+import Papa from 'papaparse';
+import * as ExcelJS from 'exceljs';
+import { TextProcessor } from './textProcessor';
+import { EntrySource } from './entryModel';
+import { AppleHealthImporter } from './appleHealthImporter';
+import { GoogleFitImporter } from './googleFitImporter';
+import { ActivityImporter } from './activityImporter';
+import { BankStatementImporter } from './bankStatementImporter';
+import { CalendarImporter } from './calendarImporter';
+import { JournalImporter } from './journalImporter';
+import { ColumnType } from './typeInference';
+import { CsvDialect, CsvDialectDetector } from './csvDialect';
+import { ExcelTableDetector } from './excelTables';
+import { csvColumnNames, describeRowErrors, fieldCountError, lineBreaks, MAX_ROW_ERRORS, RowError, toRecord } from './csvRows';
+
+/**
+ * A row of a table, keyed by column name. The row shapes importers produce
+ * (MetricRow, TransactionRow, ...) are declared as types rather than
+ * interfaces so that they fit it.
+ */
+export type TableRow = Record<string, unknown>;
+
+export interface ParsedTable {
+  sheetName?: string;   // Source worksheet for Excel uploads
+  headerRow: number;    // 1-based row (or line) holding the column names
+  data: TableRow[];
+  columns: string[];
+  source?: EntrySource;  // Set by importers of app exports, e.g. apple_health
+  dateColumn?: string;   // Column dating each row, when the format defines one
+  columnTypes?: Record<string, ColumnType>;  // Types the format fixes, skipping inference
+  rowErrors?: RowError[];  // Rows left out of a tolerant CSV upload
+  range?: string;          // Cells an Excel table was read from, e.g. B3:F40
+}
+
+export interface ParseOptions {
+  sheets?: string[];                    // Workbook sheets to read; every sheet when empty
+  headerRow?: number;                   // Header row to use instead of detecting it
+  headerRows?: Record<string, number>;  // Per-sheet header rows, taking precedence over headerRow
+  range?: string;                       // Cells of a sheet to look for its table in, e.g. B3:F40
+  ranges?: Record<string, string>;      // Per-sheet ranges, taking precedence over range
+  dialect?: Partial<CsvDialect>;        // CSV settings to use instead of detecting them
+  tolerant?: boolean;                   // Leave out CSV rows that do not parse instead of failing
+}
+
+export interface ParseResult {
+  tables: ParsedTable[];
+  sheetNames: string[];      // Every sheet in the workbook
+  missingSheets: string[];   // Requested sheets the workbook does not have
+  skippedSheets: string[];   // Sheets without a table
+  warnings: string[];
+  dialect?: CsvDialect;      // How a CSV file was read
+}
+
+// Lines sampled when looking for a CSV file's header
+export const CSV_DETECTION_LINES = 50;
+// Keys checked first when a JSON object wraps its records in an array
+const RECORD_KEYS = ['records', 'data', 'items', 'rows', 'results', 'entries'];
+const TEXT_COLUMNS = ['id', 'originalText', 'metrics', 'domain', 'sentiment', 'confidence', 'insights', 'recommendations', 'timestamp'];
+
+export class FileParser {
+  /**
+   * Turn an uploaded file into one or more tables of row objects, choosing
+   * the format from the file extension (Excel, Apple Health or Google Fit
+   * export, GPX/TCX activity, OFX/QFX/QIF bank statement, iCalendar, JSON,
+   * NDJSON, Markdown or plain-text journal, plain text, otherwise CSV).
+   * Throws when the file cannot be read as that format.
+   */
+  static async parse(buffer: Buffer, fileName: string, options: ParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = { tables: [], sheetNames: [], missingSheets: [], skippedSheets: [], warnings: [] };
+    const name = fileName.toLowerCase();
+
+    if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+      await this.parseExcel(buffer, options, result);
+    } else if (name.endsWith('.zip') || name.endsWith('.xml')) {
+      if (await AppleHealthImporter.detect(buffer, fileName)) {
+        result.tables.push(await AppleHealthImporter.parse(buffer, fileName, result.warnings));
+      } else if (name.endsWith('.zip') && await GoogleFitImporter.detect(buffer)) {
+        result.tables.push(await GoogleFitImporter.parse(buffer, result.warnings));
+      } else {
+        throw new Error('Only Apple Health exports and Google Takeout Fit archives are supported');
+      }
+    } else if (name.endsWith('.gpx') || name.endsWith('.tcx')) {
+      result.tables.push(ActivityImporter.parse(buffer.toString('utf-8'), fileName, result.warnings));
+    } else if (name.endsWith('.ofx') || name.endsWith('.qfx')) {
+      result.tables.push(BankStatementImporter.parseOfx(buffer.toString('utf-8'), result.warnings));
+    } else if (name.endsWith('.qif')) {
+      result.tables.push(BankStatementImporter.parseQif(buffer.toString('utf-8'), result.warnings));
+    } else if (name.endsWith('.ics')) {
+      result.tables.push(CalendarImporter.parse(buffer.toString('utf-8'), result.warnings));
+    } else if (name.endsWith('.json')) {
+      result.tables.push(this.parseJson(buffer.toString('utf-8'), result.warnings));
+    } else if (name.endsWith('.ndjson') || name.endsWith('.jsonl')) {
+      result.tables.push(this.parseNdjson(buffer.toString('utf-8')));
+    } else if (name.endsWith('.md') || name.endsWith('.markdown')) {
+      result.tables.push(await JournalImporter.parse(buffer.toString('utf-8'), fileName, result.warnings));
+    } else if (name.endsWith('.txt') || name.endsWith('.text')) {
+      // Text with dated entries is a journal; anything else is one note
+      const text = buffer.toString('utf-8');
+      result.tables.push(JournalImporter.isJournal(text, fileName)
+        ? await JournalImporter.parse(text, fileName, result.warnings)
+        : await this.parseText(text));
+    } else {
+      const dialect = CsvDialectDetector.detect(buffer, options.dialect);
+      const text = CsvDialectDetector.decode(buffer, dialect.encoding);
+      result.dialect = dialect;
+      const headerRow = options.headerRow ?? this.detectCsvHeaderRow(text, dialect);
+      result.tables.push(this.parseCsv(text, headerRow, dialect, options.tolerant ?? false, result.warnings));
+    }
+
+    return result;
+  }
+
+  private static async parseExcel(buffer: Buffer, options: ParseOptions, result: ParseResult) {
+    const workbook = new ExcelJS.Workbook();
+    // ExcelJS reads Node buffers, though its typings only declare ArrayBuffer
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    result.sheetNames = workbook.worksheets.map(ws => ws.name);
+    console.log('Workbook sheets:', result.sheetNames);
+
+    const requested = options.sheets ?? [];
+    result.missingSheets = requested.filter(name => !result.sheetNames.includes(name));
+    if (result.missingSheets.length > 0) return;
+
+    const worksheets = requested.length > 0
+      ? workbook.worksheets.filter(ws => requested.includes(ws.name))
+      : workbook.worksheets;
+
+    for (const worksheet of worksheets) {
+      const headerRow = options.headerRows?.[worksheet.name] ?? options.headerRow;
+      if (headerRow !== undefined && headerRow > worksheet.rowCount) {
+        throw new Error(`Sheet ${worksheet.name} has no row ${headerRow}`);
+      }
+
+      const range = options.ranges?.[worksheet.name] ?? options.range;
+      const table = ExcelTableDetector.detect(worksheet, { headerRow, range }, result.warnings);
+      if (table) {
+        console.log(`Sheet ${worksheet.name}: table at ${table.range}`);
+        result.tables.push({ sheetName: worksheet.name, ...table });
+      } else {
+        console.log('No table found in sheet:', worksheet.name);
+        result.skippedSheets.push(worksheet.name);
+        result.warnings.push(`Sheet ${worksheet.name} has no table and was skipped`);
+      }
+    }
+
+    if (result.tables.length === 0) {
+      throw new Error('Could not find a valid header row in the sheet');
+    }
+  }
+
+  /**
+   * Guess the header line of a CSV file: the first line with as many fields
+   * as most of the lines, so title and note lines above the table are skipped.
+   */
+  private static detectCsvHeaderRow(text: string, dialect: CsvDialect): number {
+    const { delimiter, quoteChar } = dialect;
+    return this.findHeaderRow(Papa.parse<string[]>(text, { preview: CSV_DETECTION_LINES, delimiter, quoteChar }).data);
+  }
+
+  /**
+   * The 1-based header line among the first parsed lines of a CSV file
+   * (see detectCsvHeaderRow).
+   */
+  static findHeaderRow(rows: unknown[][]): number {
+    const counts = new Map<number, number>();
+    rows.forEach(row => {
+      if (row.length > 1) counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    });
+    if (counts.size === 0) return 1;
+
+    const [width] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    return rows.findIndex(row => row.length === width) + 1;
+  }
+
+  /**
+   * Parse CSV text written in `dialect` whose column names are on line
+   * `headerRow`; earlier lines (titles, notes) are ignored. A row that does
+   * not parse fails the upload, or with `tolerant` is left out and reported
+   * in the table's rowErrors with its line and text.
+   */
+  private static parseCsv(text: string, headerRow: number, dialect: CsvDialect, tolerant: boolean, warnings: string[]): ParsedTable {
+    let body = text;
+    for (let line = 1; line < headerRow; line++) {
+      const next = body.indexOf('\n');
+      if (next === -1) throw new Error(`The file has no line ${headerRow}`);
+      body = body.slice(next + 1);
+    }
+
+    // The header record ends where a step parse stops after it (preview's
+    // cursor runs past the next row)
+    let header: unknown[] = [];
+    let headerEnd = 0;
+    Papa.parse<unknown[]>(body, {
+      delimiter: dialect.delimiter,
+      quoteChar: dialect.quoteChar,
+      step: (results, parser) => {
+        header = results.data;
+        headerEnd = results.meta.cursor;
+        parser.abort();
+      }
+    });
+    const columns = csvColumnNames(header, warnings);
+    const rows = body.slice(headerEnd);
+
+    const data: TableRow[] = [];
+    const rowErrors: RowError[] = [];
+    let rejected = 0;
+    let position = 0;
+    let line = headerRow + lineBreaks(body.slice(0, headerEnd));
+
+    // Cells are kept as text: TypeInference converts them once the column
+    // types are known, so "010" survives in a column typed as string
+    Papa.parse<unknown[]>(rows, {
+      ...CsvDialectDetector.parseConfig(dialect),
+      skipEmptyLines: true,
+      step: (results, parser) => {
+        // The text since the previous row: skipped blank lines, then this row
+        const consumed = rows.slice(position, results.meta.cursor);
+        position = results.meta.cursor;
+        const blank = consumed.match(/^(?:[ \t]*\r?\n)*/)![0];
+        const rowLine = line + lineBreaks(blank);
+        const raw = consumed.slice(blank.length).replace(/\r?\n$/, '');
+        line = rowLine + lineBreaks(raw) + 1;
+
+        const problem = results.errors[0] ?? fieldCountError(results.data, columns.length);
+        if (!problem) {
+          data.push(toRecord(results.data, columns));
+          return;
+        }
+        rejected++;
+        if (rowErrors.length < MAX_ROW_ERRORS) {
+          rowErrors.push({ line: rowLine, code: problem.code, message: problem.message, raw });
+        }
+        if (!tolerant && rowErrors.length === 3) parser.abort();
+      }
+    });
+
+    if (rejected > 0 && !tolerant) {
+      console.error('CSV parse errors:', rowErrors);
+      throw new Error(describeRowErrors(rowErrors));
+    }
+    if (rejected > 0) {
+      warnings.push(`${rejected} rows could not be read and were left out`);
+      if (rejected > rowErrors.length) warnings.push(`Only the first ${rowErrors.length} rejected rows are kept for review`);
+    }
+
+    console.log('CSV parsed successfully. Rows:', data.length, 'Columns:', columns.length, 'Rejected:', rejected);
+    return { headerRow, data, columns, ...(tolerant ? { rowErrors } : {}) };
+  }
+
+  /**
+   * Parse a JSON document holding an array of records, or an object with
+   * such an array under one of its keys. A file that is not a single JSON
+   * document but has one per line is read as NDJSON.
+   */
+  private static parseJson(text: string, warnings: string[]): ParsedTable {
+    let document: unknown;
+    try {
+      document = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      const lines = text.split('\n').filter(line => line.trim() !== '');
+      if (lines.length > 1 && lines.every(line => /^\s*\{/.test(line))) {
+        warnings.push('The file holds one JSON record per line and was read as NDJSON');
+        return this.parseNdjson(text);
+      }
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    let records: unknown[];
+    if (Array.isArray(document)) {
+      records = document;
+    } else if (this.isPlainObject(document)) {
+      const arrays = Object.entries(document).filter(([, value]) => Array.isArray(value) && value.some(item => this.isPlainObject(item)));
+      const [key, value] = arrays.find(([key]) => RECORD_KEYS.includes(key)) ?? arrays[0] ?? [];
+      if (key !== undefined) {
+        if (arrays.length > 1) warnings.push(`Read records from "${key}"; other arrays were ignored`);
+        records = value as unknown[];
+      } else {
+        // A lone object is a single record
+        records = [document];
+      }
+    } else {
+      throw new Error('Expected an array of objects or an object holding one');
+    }
+
+    return this.recordsToTable(records, warnings);
+  }
+
+  /**
+   * Parse newline-delimited JSON: one object per non-blank line.
+   */
+  private static parseNdjson(text: string): ParsedTable {
+    const records: unknown[] = [];
+    text.replace(/^\uFEFF/, '').split('\n').forEach((line, i) => {
+      if (line.trim() === '') return;
+      try {
+        records.push(JSON.parse(line));
+      } catch (error) {
+        throw new Error(`line ${i + 1}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    return this.recordsToTable(records);
+  }
+
+  /**
+   * Flatten records into rows whose columns are the union of their keys,
+   * in order of first appearance.
+   */
+  private static recordsToTable(records: unknown[], warnings: string[] = []): ParsedTable {
+    const columns = new Set<string>();
+    const data: TableRow[] = [];
+    let skipped = 0;
+
+    records.forEach(record => {
+      if (!this.isPlainObject(record)) {
+        skipped++;
+        return;
+      }
+      const row = this.flattenRecord(record);
+      Object.keys(row).forEach(column => columns.add(column));
+      data.push(row);
+    });
+
+    if (skipped > 0) warnings.push(`${skipped} of ${records.length} records were not objects and were skipped`);
+    if (data.length === 0) throw new Error('No records found');
+    console.log('JSON parsed successfully. Rows:', data.length, 'Columns:', columns.size);
+    return { headerRow: 1, data, columns: [...columns] };
+  }
+
+  /**
+   * Nested objects become dotted column names ({ a: { b: 1 } } -> "a.b");
+   * arrays are kept as JSON text.
+   */
+  private static flattenRecord(record: Record<string, unknown>, prefix = '', row: TableRow = {}): TableRow {
+    Object.entries(record).forEach(([key, value]) => {
+      const column = prefix + key;
+      if (this.isPlainObject(value) && Object.keys(value).length > 0) {
+        this.flattenRecord(value, `${column}.`, row);
+      } else if (Array.isArray(value) || this.isPlainObject(value)) {
+        row[column] = JSON.stringify(value);
+      } else {
+        row[column] = value;
+      }
+    });
+    return row;
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Run a plain-text file through the NLP pipeline as a single row.
+   */
+  private static async parseText(text: string): Promise<ParsedTable> {
+    const result = await TextProcessor.processText(text);
+    console.log('Text processed successfully with NLP. Domain:', result.domain, 'Confidence:', result.confidence);
+
+    return {
+      headerRow: 1,
+      columns: TEXT_COLUMNS,
+      data: [{
+        id: result.id,
+        originalText: result.originalText,
+        metrics: JSON.stringify(result.metrics),
+        domain: result.domain,
+        sentiment: result.sentiment,
+        confidence: result.confidence,
+        insights: result.insights.join('; '),
+        recommendations: result.recommendations.join('; '),
+        timestamp: result.timestamp
+      }]
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { ParsedTable, TableRow } from './fileParser';
+import { HEALTH_METRIC_UNITS, MetricRow, metricTable } from './healthMetrics';
+
+interface DailyColumn {
+  metric: string;
+  header: RegExp;
+  factor: number;           // To the metric's unit
+  combine: 'sum' | 'mean';  // How the 15-minute rows of a day file add up
+}
+
+// Daily totals. Move minutes are left out: workouts come from the sessions,
+// and counting both would double the exercise time.
+const DAILY_COLUMNS: DailyColumn[] = [
+  { metric: 'steps', header: /^Step count$/i, factor: 1, combine: 'sum' },
+  { metric: 'calories', header: /^Calories \(kcal\)$/i, factor: 1, combine: 'sum' },
+  { metric: 'distance', header: /^Distance \(m\)$/i, factor: 0.001, combine: 'sum' },
+  { metric: 'heart_rate', header: /^Average heart rate \(bpm\)$/i, factor: 1, combine: 'mean' },
+  { metric: 'weight', header: /^Average weight \(kg\)$/i, factor: 1, combine: 'mean' }
+];
+
+const FIT_FOLDER = /(^|\/)Fit\//;
+const DAY_FILE = /(\d{4}-\d{2}-\d{2})\.csv$/;
+const SUMMARY_FILE = /\/Daily (activity metrics|Summaries)\.csv$/i;
+const SESSION_FILE = /\/All Sessions\/[^/]+\.json$/i;
+
+// The fields of a Takeout session file that are read
+interface FitSession {
+  startTime?: string;
+  endTime?: string;
+  duration?: string;         // e.g. "1800.000s"
+  fitnessActivity?: string;
+}
+
+/**
+ * A file of a Takeout archive, read on demand.
+ */
+export interface ArchiveFile {
+  name: string;
+  text(): Promise<string>;
+}
+
+export class GoogleFitImporter {
+  /**
+   * Whether an uploaded archive is a Google Takeout export with Fit data.
+   */
+  static async detect(buffer: Buffer): Promise<boolean> {
+    const zip = await JSZip.loadAsync(buffer);
+    return Object.keys(zip.files).some(path => this.isFitFile(path));
+  }
+
+  /**
+   * Whether a path in a Takeout archive is one of the Fit files imported.
+   */
+  static isFitFile(path: string): boolean {
+    return FIT_FOLDER.test(path) && (DAY_FILE.test(path) || SUMMARY_FILE.test(path) || SESSION_FILE.test(path));
+  }
+
+  /**
+   * Read daily steps, calories, distance, heart rate and weight from the
+   * daily activity metrics CSVs, and workouts from the session JSON files,
+   * into metric rows. The summary CSV is used where present; per-day
+   * files fill in the days it does not cover.
+   */
+  static async parse(buffer: Buffer, warnings: string[]): Promise<ParsedTable> {
+    const zip = await JSZip.loadAsync(buffer);
+    const files = Object.values(zip.files)
+      .filter(file => !file.dir && this.isFitFile(file.name))
+      .map(file => ({ name: file.name, text: () => file.async('string') }));
+    return this.parseFiles(files, warnings);
+  }
+
+  /**
+   * Read the Fit files of an archive (see isFitFile) as parse does.
+   */
+  static async parseFiles(files: ArchiveFile[], warnings: string[]): Promise<ParsedTable> {
+    const rows: MetricRow[] = [];
+    const days = new Set<string>();
+
+    const summary = files.find(file => SUMMARY_FILE.test(file.name));
+    if (summary) {
+      const records = this.parseCsv(await summary.text());
+      records.forEach(record => {
+        const day = String(record.Date ?? '');
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return;
+        days.add(day);
+        rows.push(...this.dailyRows(day, [record]));
+      });
+    }
+
+    for (const file of files) {
+      const day = file.name.match(DAY_FILE)?.[1];
+      if (!day || days.has(day) || SUMMARY_FILE.test(file.name)) continue;
+      days.add(day);
+      rows.push(...this.dailyRows(day, this.parseCsv(await file.text())));
+    }
+
+    let unreadable = 0;
+    for (const file of files.filter(file => SESSION_FILE.test(file.name))) {
+      try {
+        const row = this.sessionRow(JSON.parse(await file.text()));
+        if (row) rows.push(row);
+      } catch {
+        unreadable++;
+      }
+    }
+    if (unreadable > 0) warnings.push(`${unreadable} session files could not be read and were skipped`);
+
+    if (rows.length === 0) throw new Error('No daily activity metrics or sessions found');
+    console.log('Google Fit export parsed. Days:', days.size, 'Metric rows:', rows.length);
+
+    return metricTable(rows, 'google_fit');
+  }
+
+  private static parseCsv(text: string): TableRow[] {
+    const parsed = Papa.parse<TableRow>(text, { header: true, dynamicTyping: true, skipEmptyLines: true });
+    return parsed.data;
+  }
+
+  /**
+   * One row per metric for a day, combining the given CSV records.
+   */
+  private static dailyRows(day: string, records: TableRow[]): MetricRow[] {
+    if (records.length === 0) return [];
+    const headers = Object.keys(records[0]);
+    const timestamp = `${day}T00:00:00.000Z`;
+    const endTime = new Date(Date.parse(timestamp) + 24 * 3600000).toISOString();
+    const rows: MetricRow[] = [];
+
+    DAILY_COLUMNS.forEach(({ metric, header, factor, combine }) => {
+      const column = headers.find(name => header.test(name.trim()));
+      if (!column) return;
+      const values = records
+        .map(record => record[column])
+        .filter((value): value is number => typeof value === 'number' && !isNaN(value));
+      if (values.length === 0) return;
+
+      const total = values.reduce((sum, value) => sum + value, 0);
+      const value = (combine === 'sum' ? total : total / values.length) * factor;
+      if (value > 0) rows.push(this.row(timestamp, endTime, metric, value, 'daily'));
+    });
+
+    return rows;
+  }
+
+  /**
+   * A session's duration as an exercise_time row tagged with its activity.
+   */
+  private static sessionRow(session: FitSession): MetricRow | null {
+    const start = new Date(session.startTime ?? NaN);
+    const end = new Date(session.endTime ?? NaN);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+
+    // Durations are written like "1800.000s"
+    const seconds = typeof session.duration === 'string'
+      ? parseFloat(session.duration)
+      : (end.getTime() - start.getTime()) / 1000;
+    if (!(seconds > 0)) return null;
+
+    return this.row(start.toISOString(), end.toISOString(), 'exercise_time', seconds / 60, String(session.fitnessActivity || 'unknown'));
+  }
+
+  private static row(timestamp: string, endTime: string, metric: string, value: number, detail: string): MetricRow {
+    return {
+      timestamp,
+      endTime,
+      metric,
+      value: Math.round(value * 1000) / 1000,
+      unit: HEALTH_METRIC_UNITS[metric],
+      sourceName: 'Google Fit',
+      detail
+    };
+  }
+}
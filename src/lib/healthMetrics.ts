@@ -0,0 +1,60 @@
+import { EntrySource } from './entryModel';
+import { ParsedTable, TableRow } from './fileParser';
+
+/**
+ * Metric names shared by the health importers and DataPipeline's health
+ * extraction, with the unit each importer converts its values to.
+ */
+export const HEALTH_METRIC_UNITS: Record<string, string> = {
+  steps: 'count',
+  heart_rate: 'bpm',
+  weight: 'kg',
+  sleep_hours: 'h',
+  exercise_time: 'min',
+  calories: 'kcal',
+  distance: 'km'
+};
+
+/**
+ * One measurement in the normalized long format produced by importers:
+ * what was measured, over which time span, from which device or app.
+ */
+export type MetricRow = {
+  timestamp: string;   // ISO 8601 start of the measurement
+  endTime: string;     // ISO 8601 end; equal to timestamp for instant samples
+  metric: string;
+  value: number;
+  unit: string;
+  sourceName: string;  // Device or app that recorded it
+  detail: string;      // e.g. sleep stage or workout type
+};
+
+export const METRIC_COLUMNS: (keyof MetricRow)[] = ['timestamp', 'endTime', 'metric', 'value', 'unit', 'sourceName', 'detail'];
+
+/**
+ * Whether a dataset holds metric rows rather than one column per measure.
+ */
+export function isMetricTable(columns: string[]): boolean {
+  return ['timestamp', 'metric', 'value', 'unit'].every(column => columns.includes(column));
+}
+
+/**
+ * Identity of a metric row across imports: the same measurement exported
+ * twice has the same start, metric, detail and recording device.
+ */
+export function metricKey(row: TableRow): string {
+  return [row.timestamp, row.metric, row.detail ?? '', row.sourceName ?? ''].join('|');
+}
+
+/**
+ * Wrap importer output as a table dated by its timestamp column.
+ */
+export function metricTable(rows: MetricRow[], source: EntrySource): ParsedTable {
+  return {
+    headerRow: 1,
+    data: rows.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    columns: METRIC_COLUMNS,
+    source,
+    dateColumn: 'timestamp'
+  };
+}
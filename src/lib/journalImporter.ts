@@ -0,0 +1,221 @@
+import { ParsedTable, TableRow } from './fileParser';
+import { TextProcessor } from './textProcessor';
+
+/**
+ * A date found in the text. Numeric dates like 05/01/2024 keep both
+ * readings until the file shows whether it writes the day first.
+ */
+interface FoundDate {
+  year: number;
+  month: number;
+  day: number;
+  ambiguous: boolean;
+}
+
+interface Marker {
+  line: number;
+  date?: FoundDate;
+  title: string;
+  lead?: string;   // Text of the marker line that belongs to the entry
+}
+
+export interface JournalEntry {
+  date: string | null;   // YYYY-MM-DD, or null when the entry has no date
+  title: string;
+  text: string;
+}
+
+const JOURNAL_COLUMNS = [
+  'id', 'date', 'title', 'originalText', 'metrics', 'domain', 'sentiment', 'confidence', 'insights', 'recommendations', 'timestamp'
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const WEEKDAY = '(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\\.?,?\\s+)?';
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+const DATE_PATTERNS: { pattern: RegExp; read: (m: RegExpMatchArray) => FoundDate }[] = [
+  {
+    pattern: new RegExp(`^${WEEKDAY}(\\d{4})[-/.](\\d{1,2})[-/.](\\d{1,2})(?!\\d)`, 'i'),
+    read: m => ({ year: +m[1], month: +m[2], day: +m[3], ambiguous: false })
+  },
+  {
+    pattern: new RegExp(`^${WEEKDAY}(\\d{1,2})[/.](\\d{1,2})[/.](\\d{4}|\\d{2})(?!\\d)`, 'i'),
+    read: m => ({ year: m[3].length === 2 ? 2000 + +m[3] : +m[3], month: +m[1], day: +m[2], ambiguous: true })
+  },
+  {
+    pattern: new RegExp(`^${WEEKDAY}${MONTH}\\s+(\\d{1,2})${ORDINAL},?\\s+(\\d{4})(?!\\d)`, 'i'),
+    read: m => ({ year: +m[3], month: MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, day: +m[2], ambiguous: false })
+  },
+  {
+    pattern: new RegExp(`^${WEEKDAY}(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${MONTH},?\\s+(\\d{4})(?!\\d)`, 'i'),
+    read: m => ({ year: +m[3], month: MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, day: +m[1], ambiguous: false })
+  }
+];
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const SEPARATOR = /^\s*([-*_=])(\s*\1){2,}\s*$/;
+// Text after a date line's date longer than this is the entry's start, not its title
+const MAX_TITLE_LENGTH = 60;
+
+export class JournalImporter {
+  /**
+   * Split a journal into entries. An entry starts at a Markdown heading
+   * holding a date, at a line that is a date (optionally followed by a
+   * short title), or after a separator line such as "---". An entry after
+   * a separator keeps the date of the entry before it. Text before the
+   * first date takes the date of the YAML front matter or file name, as
+   * daily notes are written.
+   */
+  static split(text: string, fileName: string = ''): JournalEntry[] {
+    let body = text.replace(/^\uFEFF/, '');
+    let fallback: FoundDate | undefined;
+
+    const frontMatter = body.match(/^---\r?\n([\s\S]*?)\r?\n---\s*(\r?\n|$)/);
+    if (frontMatter) {
+      const dateLine = frontMatter[1].match(/^date:\s*["']?([^"'\r\n]+)/m);
+      fallback = dateLine ? this.findDate(dateLine[1].trim()) : undefined;
+      body = body.slice(frontMatter[0].length);
+    }
+    fallback = fallback ?? this.searchDate(fileName.replace(/^.*[\\/]/, ''));
+
+    const lines = body.split(/\r?\n/);
+    const markers: Marker[] = [];
+    lines.forEach((line, index) => {
+      const heading = line.match(HEADING);
+      if (heading) {
+        const date = this.searchDate(heading[1]);
+        if (date) markers.push({ line: index, date, title: heading[1].replace(/[*_]/g, '').trim() });
+        return;
+      }
+      if (SEPARATOR.test(line)) {
+        markers.push({ line: index, title: '' });
+        return;
+      }
+      // Text after a date line's date opens the entry, as in "2024-01-05: ran 5km"
+      const dateLine = this.readDateLine(line);
+      if (dateLine) {
+        const title = dateLine.rest.length <= MAX_TITLE_LENGTH ? dateLine.rest : '';
+        markers.push({ line: index, date: dateLine.date, title, lead: dateLine.rest });
+      }
+    });
+
+    const found = [...markers.map(marker => marker.date), fallback].filter((date): date is FoundDate => date !== undefined);
+    const dayFirst = found.some(date => date.ambiguous && date.month > 12);
+
+    const chunks: { date?: FoundDate; title: string; lines: string[] }[] = [
+      { date: fallback, title: '', lines: lines.slice(0, markers[0]?.line ?? lines.length) }
+    ];
+    markers.forEach((marker, i) => {
+      chunks.push({
+        date: marker.date ?? chunks[chunks.length - 1].date,
+        title: marker.title,
+        lines: [...(marker.lead ? [marker.lead] : []), ...lines.slice(marker.line + 1, markers[i + 1]?.line ?? lines.length)]
+      });
+    });
+
+    return chunks.flatMap(chunk => {
+      // Chunks of only headings and blank lines (a file title, say) are not entries
+      if (!chunk.lines.some(line => line.trim() !== '' && !HEADING.test(line))) return [];
+      return [{
+        date: chunk.date ? this.formatDate(chunk.date, dayFirst) : null,
+        title: chunk.title,
+        text: chunk.lines.join('\n').trim()
+      }];
+    });
+  }
+
+  /**
+   * Whether a text file is a journal: it has at least one dated entry.
+   */
+  static isJournal(text: string, fileName: string = ''): boolean {
+    return this.split(text, fileName).some(entry => entry.date !== null);
+  }
+
+  /**
+   * Split a journal into entries and run NLP on each, producing one row
+   * per entry in the same shape as single text uploads, plus its date and
+   * title. Rows are timestamped with the entry's date.
+   */
+  static async parse(text: string, fileName: string, warnings: string[]): Promise<ParsedTable> {
+    const entries = this.split(text, fileName);
+    if (entries.length === 0) throw new Error('No journal entries found');
+
+    const undated = entries.filter(entry => entry.date === null).length;
+    if (undated > 0) warnings.push(`${undated} entries have no date and are dated by the upload instead`);
+
+    const data: TableRow[] = [];
+    for (const [index, entry] of entries.entries()) {
+      console.log(`Processing journal entry ${index + 1} of ${entries.length}`, entry.date ?? '(undated)');
+      const result = await TextProcessor.processText(entry.text);
+      data.push({
+        id: result.id,
+        date: entry.date,
+        title: entry.title,
+        originalText: result.originalText,
+        metrics: JSON.stringify(result.metrics),
+        domain: result.domain,
+        sentiment: result.sentiment,
+        confidence: result.confidence,
+        insights: result.insights.join('; '),
+        recommendations: result.recommendations.join('; '),
+        timestamp: entry.date ?? result.timestamp
+      });
+    }
+    console.log('Journal parsed. Entries:', data.length);
+
+    return {
+      headerRow: 1,
+      data,
+      columns: JOURNAL_COLUMNS,
+      dateColumn: 'date',
+      columnTypes: { date: 'date', title: 'string', originalText: 'string' }
+    };
+  }
+
+  /**
+   * A line that starts with a date on its own, like "2024-01-05",
+   * "**Friday, January 5, 2024**" or "5 Jan 2024 - back at work", rather
+   * than a sentence that starts with one ("2024-01-05 was a good day").
+   */
+  private static readDateLine(line: string): { date: FoundDate; rest: string } | null {
+    const plain = line.replace(/[*_[\]]/g, '').trim();
+    for (const { pattern, read } of DATE_PATTERNS) {
+      const match = plain.match(pattern);
+      if (!match) continue;
+
+      const rest = plain.slice(match[0].length).trim();
+      if (rest !== '' && !/^[:\-–—|,]/.test(rest)) return null;
+      return { date: read(match), rest: rest.replace(/^[:\-–—|,]\s*/, '') };
+    }
+    return null;
+  }
+
+  /**
+   * The first date anywhere in a heading or name.
+   */
+  private static searchDate(text: string): FoundDate | undefined {
+    const plain = text.replace(/[*_[\]]/g, '');
+    for (let i = 0; i < plain.length; i++) {
+      if (i > 0 && /\w/.test(plain[i - 1])) continue;
+      const date = this.findDate(plain.slice(i));
+      if (date) return date;
+    }
+    return undefined;
+  }
+
+  private static findDate(text: string): FoundDate | undefined {
+    for (const { pattern, read } of DATE_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) return read(match);
+    }
+    return undefined;
+  }
+
+  private static formatDate(found: FoundDate, dayFirst: boolean): string | null {
+    const [month, day] = found.ambiguous && dayFirst ? [found.day, found.month] : [found.month, found.day];
+    const date = new Date(Date.UTC(found.year, month - 1, day));
+    if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,373 @@
+import { Database } from 'sqlite';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => Promise<void>;
+}
+
+/**
+ * Ordered schema migrations for data.db.
+ *
+ * Never edit a migration once it has shipped - append a new one with the
+ * next version number instead. The first migrations use IF NOT EXISTS so
+ * databases created before versioning was introduced adopt them cleanly.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_files_and_data_entries',
+    up: async (db) => {
+      // Files metadata table
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          id TEXT PRIMARY KEY,
+          fileName TEXT NOT NULL,
+          fileSize INTEGER NOT NULL,
+          uploadDate TEXT NOT NULL,
+          numRows INTEGER NOT NULL,
+          numColumns INTEGER NOT NULL,
+          columns TEXT NOT NULL,
+          columnTypes TEXT NOT NULL
+        )
+      `);
+
+      // Data storage table (dynamic structure)
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS data_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fileId TEXT NOT NULL,
+          rowIndex INTEGER NOT NULL,
+          data TEXT NOT NULL,
+          FOREIGN KEY (fileId) REFERENCES files (id)
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'create_entries',
+    up: async (db) => {
+      // Unified entries (text, voice, file) from the "Make An Entry" page
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS entries (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          type TEXT NOT NULL,
+          source TEXT NOT NULL,
+          content TEXT NOT NULL,
+          fileUrl TEXT,
+          metadata TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+      await db.exec(
+        'CREATE INDEX IF NOT EXISTS idx_entries_user_timestamp ON entries (userId, timestamp)'
+      );
+    }
+  },
+  {
+    version: 3,
+    name: 'index_data_entries_by_file',
+    up: async (db) => {
+      await db.exec(
+        'CREATE INDEX IF NOT EXISTS idx_data_entries_file_row ON data_entries (fileId, rowIndex)'
+      );
+    }
+  },
+  {
+    version: 4,
+    name: 'add_file_versions',
+    up: async (db) => {
+      // Rows are never overwritten in place: each one records the version that
+      // introduced it (versionFrom) and the version that retired it (versionTo,
+      // NULL while current), so any past version can be reassembled.
+      await db.exec('ALTER TABLE files ADD COLUMN currentVersion INTEGER NOT NULL DEFAULT 1');
+      await db.exec('ALTER TABLE data_entries ADD COLUMN versionFrom INTEGER NOT NULL DEFAULT 1');
+      await db.exec('ALTER TABLE data_entries ADD COLUMN versionTo INTEGER');
+      await db.exec(
+        'CREATE INDEX IF NOT EXISTS idx_data_entries_file_version ON data_entries (fileId, versionTo)'
+      );
+
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS file_versions (
+          fileId TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          fileName TEXT NOT NULL,
+          fileSize INTEGER NOT NULL,
+          numRows INTEGER NOT NULL,
+          numColumns INTEGER NOT NULL,
+          columns TEXT NOT NULL,
+          columnTypes TEXT NOT NULL,
+          rowsAdded INTEGER NOT NULL,
+          rowsRemoved INTEGER NOT NULL,
+          restoredFrom INTEGER,
+          PRIMARY KEY (fileId, version),
+          FOREIGN KEY (fileId) REFERENCES files (id)
+        )
+      `);
+
+      // Existing datasets start life as version 1
+      await db.exec(`
+        INSERT INTO file_versions (fileId, version, createdAt, operation, fileName, fileSize,
+          numRows, numColumns, columns, columnTypes, rowsAdded, rowsRemoved)
+        SELECT id, 1, uploadDate, 'create', fileName, fileSize,
+          numRows, numColumns, columns, columnTypes, numRows, 0
+        FROM files
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'add_full_text_search',
+    up: async (db) => {
+      // Separate indexes so each can share its source table's rowid:
+      // entries_fts.rowid = entries.rowid, rows_fts.rowid = data_entries.id
+      await db.exec('CREATE VIRTUAL TABLE IF NOT EXISTS entries_fts USING fts5(content, insights, recommendations, tokenize = "porter unicode61")');
+      await db.exec('CREATE VIRTUAL TABLE IF NOT EXISTS rows_fts USING fts5(content, insights, recommendations, tokenize = "porter unicode61")');
+
+      const entryValues = (row: string) => `
+        ${row}.rowid,
+        ${row}.content,
+        (SELECT group_concat(value, '; ') FROM json_each(${row}.metadata, '$.extractedData.insights')),
+        (SELECT group_concat(value, '; ') FROM json_each(${row}.metadata, '$.extractedData.recommendations'))
+      `;
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS entries_fts_insert AFTER INSERT ON entries BEGIN
+          INSERT INTO entries_fts (rowid, content, insights, recommendations) VALUES (${entryValues('NEW')});
+        END
+      `);
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS entries_fts_update AFTER UPDATE ON entries BEGIN
+          DELETE FROM entries_fts WHERE rowid = OLD.rowid;
+          INSERT INTO entries_fts (rowid, content, insights, recommendations) VALUES (${entryValues('NEW')});
+        END
+      `);
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS entries_fts_delete AFTER DELETE ON entries BEGIN
+          DELETE FROM entries_fts WHERE rowid = OLD.rowid;
+        END
+      `);
+
+      // Only NLP text rows (those with originalText) are indexed, and only
+      // while they belong to the current version of their dataset
+      const rowValues = (row: string) => `
+        ${row}.id,
+        json_extract(${row}.data, '$.originalText'),
+        json_extract(${row}.data, '$.insights'),
+        json_extract(${row}.data, '$.recommendations')
+      `;
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS rows_fts_insert AFTER INSERT ON data_entries
+        WHEN NEW.versionTo IS NULL AND json_extract(NEW.data, '$.originalText') IS NOT NULL BEGIN
+          INSERT INTO rows_fts (rowid, content, insights, recommendations) VALUES (${rowValues('NEW')});
+        END
+      `);
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS rows_fts_retire AFTER UPDATE OF versionTo ON data_entries
+        WHEN NEW.versionTo IS NOT NULL BEGIN
+          DELETE FROM rows_fts WHERE rowid = OLD.id;
+        END
+      `);
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS rows_fts_delete AFTER DELETE ON data_entries BEGIN
+          DELETE FROM rows_fts WHERE rowid = OLD.id;
+        END
+      `);
+
+      // Backfill what is already stored
+      await db.exec(`
+        INSERT INTO entries_fts (rowid, content, insights, recommendations)
+        SELECT ${entryValues('entries')} FROM entries
+      `);
+      await db.exec(`
+        INSERT INTO rows_fts (rowid, content, insights, recommendations)
+        SELECT ${rowValues('data_entries')} FROM data_entries
+        WHERE versionTo IS NULL AND json_extract(data, '$.originalText') IS NOT NULL
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'add_typed_data_values',
+    up: async (db) => {
+      // One row per numeric/date cell of the current version of each dataset
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS data_values (
+          entryId INTEGER NOT NULL,
+          fileId TEXT NOT NULL,
+          rowIndex INTEGER NOT NULL,
+          "column" TEXT NOT NULL,
+          num_value REAL,
+          date_value TEXT,
+          FOREIGN KEY (entryId) REFERENCES data_entries (id),
+          FOREIGN KEY (fileId) REFERENCES files (id)
+        )
+      `);
+      await db.exec('CREATE INDEX IF NOT EXISTS idx_data_values_entry ON data_values (entryId)');
+      await db.exec('CREATE INDEX IF NOT EXISTS idx_data_values_num ON data_values (fileId, "column", num_value)');
+      await db.exec('CREATE INDEX IF NOT EXISTS idx_data_values_date ON data_values (fileId, "column", date_value)');
+
+      // Values follow their row out of the current version
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS data_values_retire AFTER UPDATE OF versionTo ON data_entries
+        WHEN NEW.versionTo IS NOT NULL BEGIN
+          DELETE FROM data_values WHERE entryId = OLD.id;
+        END
+      `);
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS data_values_delete AFTER DELETE ON data_entries BEGIN
+          DELETE FROM data_values WHERE entryId = OLD.id;
+        END
+      `);
+
+      // Backfill the cells of existing datasets, matching each row's keys to
+      // the numeric and date columns of its file
+      await db.exec(`
+        INSERT INTO data_values (entryId, fileId, rowIndex, "column", num_value)
+        SELECT de.id, de.fileId, de.rowIndex, cell.key, cell.value
+        FROM files f
+        JOIN json_each(f.columnTypes) columnType
+          ON columnType.value IN ('number', 'integer', 'float', 'currency', 'percentage', 'duration')
+        JOIN data_entries de ON de.fileId = f.id AND de.versionTo IS NULL
+        JOIN json_each(de.data) cell ON cell.key = columnType.key AND cell.type IN ('integer', 'real')
+      `);
+      await db.exec(`
+        INSERT INTO data_values (entryId, fileId, rowIndex, "column", date_value)
+        SELECT de.id, de.fileId, de.rowIndex, cell.key, datetime(cell.value)
+        FROM files f
+        JOIN json_each(f.columnTypes) columnType ON columnType.value IN ('date', 'datetime')
+        JOIN data_entries de ON de.fileId = f.id AND de.versionTo IS NULL
+        JOIN json_each(de.data) cell ON cell.key = columnType.key AND datetime(cell.value) IS NOT NULL
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'add_upload_groups',
+    up: async (db) => {
+      // Datasets created from one upload (e.g. the sheets of a workbook) share an uploadId
+      await db.exec('ALTER TABLE files ADD COLUMN uploadId TEXT');
+      await db.exec('ALTER TABLE files ADD COLUMN sheetName TEXT');
+      await db.exec('CREATE INDEX IF NOT EXISTS idx_files_upload ON files (uploadId)');
+    }
+  },
+  {
+    version: 8,
+    name: 'add_staged_uploads',
+    up: async (db) => {
+      await db.exec('ALTER TABLE files ADD COLUMN dateColumn TEXT');
+
+      // Uploaded files held for preview until they are committed or discarded
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS staged_uploads (
+          id TEXT PRIMARY KEY,
+          fileName TEXT NOT NULL,
+          fileSize INTEGER NOT NULL,
+          mode TEXT NOT NULL,
+          targetFileId TEXT,
+          dedupeKey TEXT,
+          sheets TEXT NOT NULL,
+          content BLOB NOT NULL,
+          createdAt TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'add_file_source',
+    up: async (db) => {
+      // App the data was exported from (see EntrySource); NULL for plain uploads
+      await db.exec('ALTER TABLE files ADD COLUMN source TEXT');
+    }
+  },
+  {
+    version: 10,
+    name: 'add_import_jobs',
+    up: async (db) => {
+      // Progress of streamed imports; the dataset is hidden until its job is done
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS import_jobs (
+          id TEXT PRIMARY KEY,
+          fileName TEXT NOT NULL,
+          fileId TEXT,
+          status TEXT NOT NULL,
+          bytesTotal INTEGER,
+          bytesRead INTEGER NOT NULL DEFAULT 0,
+          rowsWritten INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'add_csv_dialect',
+    up: async (db) => {
+      // CSV settings given by the caller, carried from upload to commit
+      await db.exec('ALTER TABLE staged_uploads ADD COLUMN dialect TEXT');
+      await db.exec('ALTER TABLE import_jobs ADD COLUMN dialect TEXT');
+    }
+  },
+  {
+    version: 12,
+    name: 'add_row_errors',
+    up: async (db) => {
+      // Rows a tolerant upload left out, kept with the version they belong to
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS row_errors (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fileId TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          line INTEGER NOT NULL,
+          code TEXT NOT NULL,
+          message TEXT NOT NULL,
+          raw TEXT NOT NULL,
+          FOREIGN KEY (fileId) REFERENCES files (id)
+        )
+      `);
+      await db.exec('CREATE INDEX IF NOT EXISTS idx_row_errors_file ON row_errors (fileId, version, line)');
+      await db.exec('ALTER TABLE staged_uploads ADD COLUMN tolerant INTEGER NOT NULL DEFAULT 0');
+      await db.exec('ALTER TABLE import_jobs ADD COLUMN tolerant INTEGER NOT NULL DEFAULT 0');
+    }
+  },
+  {
+    version: 13,
+    name: 'add_entry_files',
+    up: async (db) => {
+      // Files kept with an entry, such as the recording of a voice note
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS entry_files (
+          entryId TEXT PRIMARY KEY,
+          fileName TEXT NOT NULL,
+          mimeType TEXT NOT NULL,
+          content BLOB NOT NULL,
+          createdAt TEXT NOT NULL,
+          FOREIGN KEY (entryId) REFERENCES entries (id)
+        )
+      `);
+    }
+  },
+  {
+    version: 14,
+    name: 'add_version_date_column_and_source',
+    up: async (db) => {
+      // Versions keep the date column and source too, so a rollback restores
+      // them. Earlier versions take the dataset's current ones.
+      await db.exec('ALTER TABLE file_versions ADD COLUMN dateColumn TEXT');
+      await db.exec('ALTER TABLE file_versions ADD COLUMN source TEXT');
+      await db.exec(`
+        UPDATE file_versions
+        SET dateColumn = (SELECT dateColumn FROM files WHERE files.id = file_versions.fileId),
+            source = (SELECT source FROM files WHERE files.id = file_versions.fileId)
+      `);
+    }
+  }
+];
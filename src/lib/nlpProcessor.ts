@@ -67,6 +67,19 @@ export class NLPProcessor {
     }
   }
 
+  /**
+   * A short reply describing what was understood from an entry: its
+   * domain, first insight and first recommendation.
+   */
+  static summarize(result: NLPResult): string {
+    let summary = `Here's what I understood: `;
+    if (result.domain) summary += `Domain: ${result.domain}. `;
+    if (result.insights && result.insights.length > 0) summary += `Insight: ${result.insights[0]}. `;
+    if (result.recommendations && result.recommendations.length > 0) summary += `Recommendation: ${result.recommendations[0]}`;
+    if (summary === `Here's what I understood: `) summary += 'Entry received!';
+    return summary;
+  }
+
   /**
    * Use Ollama AI to extract structured data from text
    */
@@ -0,0 +1,272 @@
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'like' | 'in' | 'is_null' | 'not_null';
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface WhereClause {
+  column: string;
+  op: ComparisonOperator;
+  value?: string | number | boolean | (string | number)[];
+}
+
+export interface AggregateSpec {
+  fn: AggregateFunction;
+  column?: string;  // Omit for COUNT(*)
+  as?: string;
+}
+
+export interface OrderSpec {
+  column: string;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Structured query over dataset rows. Column names refer to keys of each
+ * row's JSON `data`, except the meta columns fileId, fileName, uploadDate
+ * and rowIndex which come from the row's file.
+ */
+export interface DataQuery {
+  select?: string[];
+  where?: WhereClause[];
+  groupBy?: string[];
+  aggregates?: AggregateSpec[];
+  orderBy?: OrderSpec[];
+  limit?: number;
+  offset?: number;
+}
+
+export const DEFAULT_QUERY_LIMIT = 1000;
+export const MAX_QUERY_LIMIT = 10000;
+
+const OPERATORS: ComparisonOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'like', 'in', 'is_null', 'not_null'];
+const AGGREGATES: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+const META_COLUMNS: Record<string, string> = {
+  fileId: 'de.fileId',
+  fileName: 'f.fileName',
+  uploadDate: 'f.uploadDate',
+  rowIndex: 'de.rowIndex'
+};
+const MAX_IN_VALUES = 100;
+
+// A request body's fields before validate has checked them
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+/**
+ * SQLite JSON path for a top-level key of a row's `data` object.
+ * Keys are quoted so column names with spaces or dots still resolve, and
+ * escaped as in the stored JSON (" as \", \ as \\). A quoted key ends at
+ * the first quote whatever precedes it, so keys holding one are left
+ * unquoted, and cannot then also hold a dot or bracket.
+ */
+export function jsonPath(column: string): string {
+  const key = JSON.stringify(column).slice(1, -1);
+  if (!column.includes('"')) return `$."${key}"`;
+  if (/[.[]/.test(column)) {
+    throw new Error(`Column ${column} cannot be read: names with a quote cannot also have a dot or bracket`);
+  }
+  return `$.${key}`;
+}
+
+export class QueryBuilder {
+  /**
+   * Check an untrusted request body against the DataQuery shape.
+   * Returns the typed query when valid, otherwise the list of problems.
+   */
+  static validate(input: unknown): { query?: DataQuery; errors: string[] } {
+    const errors: string[] = [];
+    if (input === undefined || input === null) return { query: {}, errors };
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      return { errors: ['Query must be an object'] };
+    }
+
+    const query = input as Unchecked<DataQuery>;
+    const isColumn = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+    const isColumnList = (value: unknown) => Array.isArray(value) && value.every(isColumn);
+
+    if (query.select !== undefined && !isColumnList(query.select)) {
+      errors.push('select must be a list of column names');
+    }
+    if (query.groupBy !== undefined && !isColumnList(query.groupBy)) {
+      errors.push('groupBy must be a list of column names');
+    }
+
+    if (query.where !== undefined) {
+      if (!Array.isArray(query.where)) {
+        errors.push('where must be a list of clauses');
+      } else {
+        query.where.forEach((clause: Unchecked<WhereClause> | null, i: number) => {
+          if (!clause || !isColumn(clause.column)) {
+            errors.push(`where[${i}] is missing a column`);
+          } else if (!OPERATORS.includes(clause.op as ComparisonOperator)) {
+            errors.push(`where[${i}] has unknown operator ${clause.op}`);
+          } else if (clause.op === 'in') {
+            if (!Array.isArray(clause.value) || clause.value.length === 0 || clause.value.length > MAX_IN_VALUES) {
+              errors.push(`where[${i}] "in" needs between 1 and ${MAX_IN_VALUES} values`);
+            }
+          } else if (clause.op !== 'is_null' && clause.op !== 'not_null') {
+            if (!['string', 'number', 'boolean'].includes(typeof clause.value)) {
+              errors.push(`where[${i}] needs a string, number or boolean value`);
+            }
+          }
+        });
+      }
+    }
+
+    if (query.aggregates !== undefined) {
+      if (!Array.isArray(query.aggregates)) {
+        errors.push('aggregates must be a list');
+      } else {
+        query.aggregates.forEach((aggregate: Unchecked<AggregateSpec> | null, i: number) => {
+          if (!aggregate || !AGGREGATES.includes(aggregate.fn as AggregateFunction)) {
+            errors.push(`aggregates[${i}] has unknown function ${aggregate?.fn}`);
+          } else if (aggregate.fn !== 'count' && !isColumn(aggregate.column)) {
+            errors.push(`aggregates[${i}] (${aggregate.fn}) needs a column`);
+          }
+          if (aggregate?.as !== undefined && !isColumn(aggregate.as)) {
+            errors.push(`aggregates[${i}] has an invalid alias`);
+          }
+        });
+      }
+    }
+
+    const grouped = Array.isArray(query.groupBy) && query.groupBy.length > 0;
+    const aggregated = Array.isArray(query.aggregates) && query.aggregates.length > 0;
+    if ((grouped || aggregated) && query.select !== undefined) {
+      errors.push('select cannot be combined with groupBy or aggregates; grouped columns are selected automatically');
+    }
+
+    if (query.orderBy !== undefined) {
+      if (!Array.isArray(query.orderBy)) {
+        errors.push('orderBy must be a list');
+      } else {
+        const outputs = errors.length === 0 && (grouped || aggregated)
+          ? this.outputColumns(query as DataQuery)
+          : null;
+        query.orderBy.forEach((order: Unchecked<OrderSpec> | null, i: number) => {
+          if (!order || !isColumn(order.column)) {
+            errors.push(`orderBy[${i}] is missing a column`);
+          } else if (order.direction !== undefined && order.direction !== 'asc' && order.direction !== 'desc') {
+            errors.push(`orderBy[${i}] direction must be asc or desc`);
+          } else if (outputs && !outputs.includes(order.column)) {
+            errors.push(`orderBy[${i}] must reference a grouped column or aggregate`);
+          }
+        });
+      }
+    }
+
+    for (const key of ['limit', 'offset'] as const) {
+      const value = query[key];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+        errors.push(`${key} must be a non-negative integer`);
+      }
+    }
+    if (typeof query.limit === 'number' && query.limit > MAX_QUERY_LIMIT) {
+      errors.push(`limit cannot exceed ${MAX_QUERY_LIMIT}`);
+    }
+
+    return errors.length > 0 ? { errors } : { query: query as DataQuery, errors };
+  }
+
+  /**
+   * Compile a validated query to parameterized SQL over the current rows of
+   * every dataset. Identifiers never reach the SQL text unquoted: row fields
+   * are bound as JSON paths and output names are quoted aliases.
+   */
+  static build(query: DataQuery): { sql: string; params: unknown[]; raw: boolean } {
+    const params: unknown[] = [];
+    const expression = (column: string) => {
+      if (META_COLUMNS[column]) return META_COLUMNS[column];
+      params.push(jsonPath(column));
+      return 'json_extract(de.data, ?)';
+    };
+
+    const grouped = (query.groupBy?.length ?? 0) > 0 || (query.aggregates?.length ?? 0) > 0;
+    const selectParts: string[] = [];
+    let raw = false;
+
+    if (grouped) {
+      (query.groupBy ?? []).forEach(column => {
+        selectParts.push(`${expression(column)} AS ${this.quote(column)}`);
+      });
+      (query.aggregates ?? []).forEach(aggregate => {
+        const target = aggregate.column ? expression(aggregate.column) : '*';
+        selectParts.push(`${aggregate.fn.toUpperCase()}(${target}) AS ${this.quote(this.aggregateAlias(aggregate))}`);
+      });
+    } else if (query.select && query.select.length > 0) {
+      query.select.forEach(column => {
+        selectParts.push(`${expression(column)} AS ${this.quote(column)}`);
+      });
+    } else {
+      // Whole rows, merged with their file's name and upload date
+      selectParts.push('f.fileName', 'f.uploadDate', 'de.data');
+      raw = true;
+    }
+
+    const conditions = ['de.versionTo IS NULL'];
+    (query.where ?? []).forEach(clause => {
+      const target = expression(clause.column);
+      switch (clause.op) {
+        case 'is_null':
+          conditions.push(`${target} IS NULL`);
+          break;
+        case 'not_null':
+          conditions.push(`${target} IS NOT NULL`);
+          break;
+        case 'in': {
+          const values = clause.value as (string | number)[];
+          conditions.push(`${target} IN (${values.map(() => '?').join(', ')})`);
+          params.push(...values);
+          break;
+        }
+        case 'like':
+          conditions.push(`${target} LIKE ?`);
+          params.push(clause.value);
+          break;
+        default:
+          conditions.push(`${target} ${clause.op} ?`);
+          params.push(typeof clause.value === 'boolean' ? Number(clause.value) : clause.value);
+      }
+    });
+
+    let sql = `SELECT ${selectParts.join(', ')}
+      FROM files f
+      JOIN data_entries de ON f.id = de.fileId
+      WHERE ${conditions.join(' AND ')}`;
+
+    const groupCount = query.groupBy?.length ?? 0;
+    if (groupCount > 0) {
+      // Group by select-list position so the bound JSON paths are not repeated
+      sql += ` GROUP BY ${Array.from({ length: groupCount }, (_, i) => i + 1).join(', ')}`;
+    }
+
+    if (query.orderBy && query.orderBy.length > 0) {
+      const orders = query.orderBy.map(order => {
+        const direction = order.direction === 'desc' ? 'DESC' : 'ASC';
+        const outputs = grouped || query.select ? this.outputColumns(query) : [];
+        const target = outputs.includes(order.column) ? this.quote(order.column) : expression(order.column);
+        return `${target} ${direction}`;
+      });
+      sql += ` ORDER BY ${orders.join(', ')}`;
+    } else if (raw) {
+      sql += ' ORDER BY f.uploadDate DESC, de.rowIndex';
+    }
+
+    sql += ' LIMIT ? OFFSET ?';
+    params.push(query.limit ?? DEFAULT_QUERY_LIMIT, query.offset ?? 0);
+
+    return { sql, params, raw };
+  }
+
+  private static outputColumns(query: DataQuery): string[] {
+    if ((query.groupBy?.length ?? 0) > 0 || (query.aggregates?.length ?? 0) > 0) {
+      return [...(query.groupBy ?? []), ...(query.aggregates ?? []).map(aggregate => this.aggregateAlias(aggregate))];
+    }
+    return query.select ?? [];
+  }
+
+  private static aggregateAlias(aggregate: AggregateSpec): string {
+    return aggregate.as || (aggregate.column ? `${aggregate.fn}_${aggregate.column}` : aggregate.fn);
+  }
+
+  private static quote(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+}
@@ -0,0 +1,47 @@
+import { ParsedTable, TableRow } from './fileParser';
+
+/**
+ * One bank or card transaction in the normalized format produced by the
+ * statement importers. Amounts are signed: money out is negative.
+ */
+export type TransactionRow = {
+  date: string;                        // YYYY-MM-DD as posted by the bank
+  payee: string;
+  amount: number;
+  direction: 'credit' | 'debit';      // credit = money in, debit = money out
+  account: string;
+  memo: string;
+  fitid: string;                       // Bank-assigned transaction id, unique per account
+};
+
+export const TRANSACTION_COLUMNS: (keyof TransactionRow)[] = ['date', 'payee', 'amount', 'direction', 'account', 'memo', 'fitid'];
+
+/**
+ * Whether a dataset holds transactions from a bank statement import.
+ */
+export function isTransactionTable(columns: string[]): boolean {
+  return ['date', 'amount', 'direction', 'fitid'].every(column => columns.includes(column));
+}
+
+/**
+ * Identity of a transaction across imports. Banks only guarantee FITIDs
+ * to be unique within one account.
+ */
+export function transactionKey(row: TableRow): string {
+  return [row.account ?? '', row.fitid].join('|');
+}
+
+/**
+ * Wrap importer output as a table dated by its date column. Account numbers
+ * and FITIDs stay text so leading zeros and long ids survive type inference.
+ */
+export function transactionTable(rows: TransactionRow[]): ParsedTable {
+  return {
+    headerRow: 1,
+    data: rows.sort((a, b) => a.date.localeCompare(b.date)),
+    columns: TRANSACTION_COLUMNS,
+    source: 'bank_statement',
+    dateColumn: 'date',
+    columnTypes: { account: 'string', fitid: 'string', payee: 'string', memo: 'string' }
+  };
+}
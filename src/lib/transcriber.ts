@@ -0,0 +1,175 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WordTiming } from './entryModel';
+
+export interface Transcription {
+  text: string;
+  duration: number | null;   // Seconds of audio
+  words: WordTiming[];
+  language: string | null;
+}
+
+/**
+ * A speech-to-text backend. Chosen with the TRANSCRIBER environment
+ * variable (see getTranscriber).
+ */
+export interface Transcriber {
+  readonly name: string;
+  transcribe(audio: Buffer, fileName: string): Promise<Transcription>;
+}
+
+// The parts of whisper.cpp's full JSON output (-ojf) that are read
+interface WhisperSpan {
+  text?: string;
+  offsets?: { from?: number; to?: number };
+}
+
+interface WhisperOutput {
+  result?: { language?: string };
+  transcription?: (WhisperSpan & { tokens?: WhisperSpan[] })[];
+}
+
+export interface WhisperCliOptions {
+  binary: string;      // whisper.cpp's command-line program (whisper-cli, or main in older builds)
+  model: string;       // ggml model file
+  ffmpeg: string;      // Converts recordings to the 16 kHz WAV whisper.cpp reads
+  language: string;    // Spoken language, or auto to detect it
+  timeoutMs: number;
+}
+
+// Longest a conversion or transcription may run
+const TRANSCRIBE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Tokens whisper.cpp adds for timestamps and segment boundaries, e.g. [_BEG_] or [_TT_150]
+const SPECIAL_TOKEN = /^\[_[A-Z]+_?\d*\]$|^<\|.*\|>$/;
+
+/**
+ * Transcribes with a local whisper.cpp build. The recording is converted
+ * with ffmpeg first, so any format ffmpeg reads (browser WebM/Opus, M4A,
+ * MP3) works, and word timings come from whisper.cpp's token timestamps.
+ */
+export class WhisperCliTranscriber implements Transcriber {
+  readonly name = 'whisper.cpp';
+
+  constructor(private options: WhisperCliOptions) {}
+
+  async transcribe(audio: Buffer, fileName: string): Promise<Transcription> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'transcribe-'));
+    try {
+      const input = path.join(dir, `input${path.extname(fileName).toLowerCase() || '.audio'}`);
+      const wav = path.join(dir, 'audio.wav');
+      const output = path.join(dir, 'transcript');
+      await fs.writeFile(input, audio);
+
+      const { ffmpeg, binary, model, language, timeoutMs } = this.options;
+      await this.run(ffmpeg, ['-nostdin', '-loglevel', 'error', '-y', '-i', input, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav], timeoutMs);
+      await this.run(binary, ['-m', model, '-f', wav, '-l', language, '-ojf', '-of', output, '-np'], timeoutMs);
+
+      const result = WhisperCliTranscriber.parseOutput(JSON.parse(await fs.readFile(`${output}.json`, 'utf-8')));
+      return { ...result, duration: WhisperCliTranscriber.wavDuration(await fs.readFile(wav)) ?? result.duration };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read whisper.cpp's full JSON output (-ojf). Tokens starting with a
+   * space start a new word; the rest (punctuation, word pieces) belong to
+   * the word before. Offsets are in milliseconds.
+   */
+  static parseOutput(output: WhisperOutput): Transcription {
+    const segments = Array.isArray(output?.transcription) ? output.transcription : [];
+    const words: WordTiming[] = [];
+
+    segments.forEach(segment => {
+      (Array.isArray(segment.tokens) ? segment.tokens : []).forEach(token => {
+        const text = String(token.text ?? '');
+        if (SPECIAL_TOKEN.test(text.trim()) || text.trim() === '') return;
+        const start = (token.offsets?.from ?? 0) / 1000;
+        const end = (token.offsets?.to ?? 0) / 1000;
+        const last = words[words.length - 1];
+        if (last && !/^\s/.test(text)) {
+          last.word += text;
+          last.end = end;
+        } else {
+          words.push({ word: text.trim(), start, end });
+        }
+      });
+    });
+
+    const last = segments[segments.length - 1];
+    return {
+      text: segments.map(segment => String(segment.text ?? '')).join('').replace(/\s+/g, ' ').trim(),
+      duration: last?.offsets?.to !== undefined ? last.offsets.to / 1000 : null,
+      words,
+      language: typeof output?.result?.language === 'string' ? output.result.language : null
+    };
+  }
+
+  /**
+   * Length in seconds of a PCM WAV file, from its fmt and data chunks.
+   */
+  static wavDuration(wav: Buffer): number | null {
+    let byteRate = 0;
+    // Chunks follow the 12-byte RIFF header: a 4-byte id, a 4-byte size, then the data
+    for (let offset = 12; offset + 8 <= wav.length;) {
+      const id = wav.toString('ascii', offset, offset + 4);
+      const size = wav.readUInt32LE(offset + 4);
+      if (id === 'fmt ' && offset + 20 <= wav.length) byteRate = wav.readUInt32LE(offset + 16);
+      if (id === 'data') return byteRate > 0 ? size / byteRate : null;
+      offset += 8 + size + (size % 2);
+    }
+    return null;
+  }
+
+  private run(program: string, args: string[], timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      execFile(program, args, { timeout: timeoutMs, maxBuffer: 16 * 1024 * 1024 }, (error, _stdout, stderr) => {
+        if (!error) return resolve();
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return reject(new Error(`${program} was not found`));
+        }
+        reject(new Error(`${path.basename(program)} failed: ${String(stderr).trim() || error.message}`));
+      });
+    });
+  }
+}
+
+/**
+ * Returns a fixed transcript without reading the audio, one word every
+ * half second. For tests, and for machines without whisper.cpp.
+ */
+export class FakeTranscriber implements Transcriber {
+  readonly name = 'fake';
+
+  constructor(private text: string = 'This is a test voice note') {}
+
+  async transcribe(): Promise<Transcription> {
+    const words = this.text.split(/\s+/).filter(Boolean).map((word, i) => ({ word, start: i * 0.5, end: i * 0.5 + 0.4 }));
+    return { text: words.map(word => word.word).join(' '), duration: words.length * 0.5, words, language: 'en' };
+  }
+}
+
+/**
+ * The transcriber set by TRANSCRIBER: whisper (the default) or fake. The
+ * whisper.cpp backend is configured with WHISPER_CPP_BIN, WHISPER_CPP_MODEL,
+ * WHISPER_LANGUAGE and FFMPEG_BIN.
+ */
+export function getTranscriber(env: NodeJS.ProcessEnv = process.env): Transcriber {
+  switch (env.TRANSCRIBER ?? 'whisper') {
+    case 'fake':
+      return new FakeTranscriber(env.FAKE_TRANSCRIPT || undefined);
+    case 'whisper':
+      return new WhisperCliTranscriber({
+        binary: env.WHISPER_CPP_BIN || 'whisper-cli',
+        model: env.WHISPER_CPP_MODEL || path.join(process.cwd(), 'models', 'ggml-base.en.bin'),
+        ffmpeg: env.FFMPEG_BIN || 'ffmpeg',
+        language: env.WHISPER_LANGUAGE || 'auto',
+        timeoutMs: TRANSCRIBE_TIMEOUT_MS
+      });
+    default:
+      throw new Error(`Unknown transcriber ${env.TRANSCRIBER}; use whisper or fake`);
+  }
+}
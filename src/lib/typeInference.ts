@@ -0,0 +1,361 @@
+import { TableRow } from './fileParser';
+
+export type ColumnType =
+  | 'integer'
+  | 'float'
+  | 'currency'
+  | 'percentage'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'duration'
+  | 'string'
+  | 'empty';
+
+export const COLUMN_TYPES: ColumnType[] = [
+  'integer', 'float', 'currency', 'percentage', 'boolean', 'date', 'datetime', 'duration', 'string', 'empty'
+];
+
+export interface ColumnInference {
+  type: ColumnType;
+  confidence: number;     // Share of non-empty sampled values matching the type (0-1)
+  sampled: number;
+  empty: number;
+}
+
+export interface InferenceResult {
+  columnTypes: Record<string, ColumnType>;
+  columns: Record<string, ColumnInference>;
+}
+
+// Below this share of matching values a column falls back to string
+const MIN_CONFIDENCE = 0.8;
+const DEFAULT_SAMPLE_SIZE = 10000;
+
+// Columns whose MM:SS values are durations rather than times of day
+const DURATION_COLUMN = /duration|elapsed|pace|lap|split/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const PATTERNS = {
+  boolean: /^(true|false|yes|no|y|n)$/i,
+  integer: /^[-+]?(\d{1,3}(,\d{3})+|0|[1-9]\d*)$/,
+  float: /^[-+]?(\d{1,3}(,\d{3})+|\d+)?\.\d+([eE][-+]?\d+)?$|^[-+]?\d+[eE][-+]?\d+$/,
+  currency: /^\(?[-+]?\s*([$€£¥]\s*[-+]?[\d,]*\.?\d+|[\d,]*\.?\d+\s*[$€£¥]|(USD|EUR|GBP|CAD|AUD)\s*[-+]?[\d,]*\.?\d+)\)?$/i,
+  percentage: /^[-+]?[\d,]*\.?\d+\s*%$/,
+  isoDate: /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+  slashDate: /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/,
+  isoDateTime: /^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i,
+  slashDateTime: /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})[ T](\d{1,2}):(\d{2})(:(\d{2}))?\s*(am|pm)?$/i,
+  namedDate: new RegExp(`^(\\d{1,2}(st|nd|rd|th)?\\s+)?(${MONTHS.join('|')})[a-z]*\\.?\\s+(\\d{1,2}(st|nd|rd|th)?,?\\s+)?\\d{4}$`, 'i'),
+  clockDuration: /^(\d+):([0-5]\d):([0-5]\d)$/,
+  shortClockDuration: /^(\d+):([0-5]\d)$/,
+  isoDuration: /^P(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)$/i,
+  unitDuration: /^(\d+(\.\d+)?\s*(h|hr|hrs|hour|hours|m|min|mins|minute|minutes|s|sec|secs|second|seconds)\s*)+$/i
+};
+
+export class TypeInference {
+  /**
+   * Infer a type for every column from all rows (or an evenly spaced sample
+   * of large datasets) rather than from the first row alone.
+   */
+  static inferColumnTypes(
+    data: TableRow[],
+    columns: string[],
+    sampleSize: number = DEFAULT_SAMPLE_SIZE
+  ): InferenceResult {
+    const sample = this.sampleRows(data, sampleSize);
+    const result: InferenceResult = { columnTypes: {}, columns: {} };
+
+    columns.forEach(col => {
+      const counts: Partial<Record<ColumnType, number>> = {};
+      let empty = 0;
+
+      const shortClock = DURATION_COLUMN.test(col);
+      sample.forEach(row => {
+        const type = this.detectValueType(row[col], shortClock);
+        if (type === 'empty') {
+          empty++;
+        } else {
+          counts[type] = (counts[type] || 0) + 1;
+        }
+      });
+
+      const inference = this.resolveColumnType(counts, sample.length, empty);
+      result.columns[col] = inference;
+      result.columnTypes[col] = inference.type;
+    });
+
+    return result;
+  }
+
+  /**
+   * Convert each cell of an inferred column to its canonical form: numbers
+   * for numeric types (percentages in points, durations in seconds), booleans,
+   * YYYY-MM-DD dates and ISO datetimes. Cells that do not fit are kept as-is.
+   * Slash dates are read day first in the `dayFirst` columns (by default
+   * those whose values show it, see dayFirstColumns).
+   */
+  static normalizeRows(
+    data: TableRow[],
+    columnTypes: Record<string, string>,
+    dayFirst: string[] = this.dayFirstColumns(data, columnTypes)
+  ): TableRow[] {
+    const columns = Object.entries(columnTypes).filter(([, type]) => type !== 'string' && type !== 'empty');
+    if (columns.length === 0) return data;
+
+    return data.map(row => {
+      const normalized = { ...row };
+      columns.forEach(([col, type]) => {
+        const value = this.normalizeValue(row[col], type as ColumnType, dayFirst.includes(col));
+        if (value !== undefined) normalized[col] = value;
+      });
+      return normalized;
+    });
+  }
+
+  /**
+   * Date columns whose slash dates are written day first. The order is
+   * chosen once per column from all of its values, so 05/02 and 13/02 in
+   * the same column are read alike: day first when more values can only
+   * be read that way (13/02/2024) than only month first (02/13/2024).
+   */
+  static dayFirstColumns(data: TableRow[], columnTypes: Record<string, string>): string[] {
+    return Object.entries(columnTypes)
+      .filter(([, type]) => type === 'date' || type === 'datetime')
+      .map(([col]) => col)
+      .filter(col => {
+        let dayFirst = 0;
+        let monthFirst = 0;
+        data.forEach(row => {
+          const match = String(row[col] ?? '').trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]/);
+          if (!match) return;
+          if (+match[1] > 12 && +match[2] <= 12) dayFirst++;
+          if (+match[2] > 12 && +match[1] <= 12) monthFirst++;
+        });
+        return dayFirst > monthFirst;
+      });
+  }
+
+  /**
+   * Whether values of two column types can live in the same column,
+   * e.g. when appending an upload whose numbers happen to be whole.
+   */
+  static areTypesCompatible(a: string, b: string): boolean {
+    if (a === b) return true;
+    const plainNumbers = ['number', 'integer', 'float'];
+    if (plainNumbers.includes(a) && plainNumbers.includes(b)) return true;
+    return ['date', 'datetime'].includes(a) && ['date', 'datetime'].includes(b);
+  }
+
+  /**
+   * Classify a single cell. MM:SS values are durations only with
+   * `shortClock` (the column is named as one); otherwise they are left as
+   * text, since they are as likely times of day.
+   */
+  static detectValueType(value: unknown, shortClock: boolean = false): ColumnType {
+    if (value === null || value === undefined) return 'empty';
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'number') {
+      if (!isFinite(value)) return 'string';
+      return Number.isInteger(value) ? 'integer' : 'float';
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? 'string' : 'datetime';
+    }
+
+    const text = String(value).trim();
+    if (text === '') return 'empty';
+    if (PATTERNS.boolean.test(text)) return 'boolean';
+    // Ids too long for a number are kept as text
+    if (PATTERNS.integer.test(text)) return Number.isSafeInteger(Number(text.replace(/,/g, ''))) ? 'integer' : 'string';
+    if (PATTERNS.float.test(text)) return 'float';
+    if (PATTERNS.currency.test(text)) return 'currency';
+    if (PATTERNS.percentage.test(text)) return 'percentage';
+    // Either order may fit; the column's values decide which is used
+    if (this.parseDate(text, false) || this.parseDate(text, true)) return 'date';
+    if (this.parseDateTime(text, false) || this.parseDateTime(text, true)) return 'datetime';
+    if (this.parseDuration(text, shortClock) !== null) return 'duration';
+    return 'string';
+  }
+
+  private static resolveColumnType(
+    counts: Partial<Record<ColumnType, number>>,
+    sampled: number,
+    empty: number
+  ): ColumnInference {
+    const nonEmpty = sampled - empty;
+    if (nonEmpty === 0) {
+      return { type: 'empty', confidence: 0, sampled, empty };
+    }
+
+    const count = (type: ColumnType) => counts[type] || 0;
+
+    // Compatible types compete as one group, then the most specific member wins
+    const groups: { type: ColumnType; matches: number }[] = [
+      {
+        type: count('currency') > 0 ? 'currency'
+          : count('percentage') > 0 ? 'percentage'
+          : count('float') > 0 ? 'float'
+          : 'integer',
+        matches: count('integer') + count('float') + count('currency') + count('percentage')
+      },
+      { type: count('datetime') > 0 ? 'datetime' : 'date', matches: count('date') + count('datetime') },
+      { type: 'boolean', matches: count('boolean') },
+      { type: 'duration', matches: count('duration') }
+    ];
+
+    // A column mixing formats, e.g. "$5" and "12%", is not one numeric type
+    if (count('currency') > 0 && count('percentage') > 0) {
+      groups[0].matches -= Math.min(count('currency'), count('percentage'));
+    }
+
+    const best = groups.reduce((a, b) => (b.matches > a.matches ? b : a));
+    const confidence = best.matches / nonEmpty;
+    if (confidence >= MIN_CONFIDENCE) {
+      return { type: best.type, confidence: this.round(confidence), sampled, empty };
+    }
+
+    return { type: 'string', confidence: this.round(count('string') / nonEmpty), sampled, empty };
+  }
+
+  private static normalizeValue(value: unknown, type: ColumnType, dayFirst: boolean): unknown {
+    if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      return undefined;
+    }
+    const detected = this.detectValueType(value, type === 'duration');
+    const text = String(value).trim();
+
+    switch (type) {
+      case 'integer':
+      case 'float':
+        if (detected !== 'integer' && detected !== 'float') return undefined;
+        return typeof value === 'number' ? value : Number(text.replace(/,/g, ''));
+      case 'currency':
+      case 'percentage': {
+        if (!['integer', 'float', 'currency', 'percentage'].includes(detected)) return undefined;
+        if (typeof value === 'number') return value;
+        const negative = /^\(.*\)$/.test(text) || /^\(?\s*-|[$€£¥]\s*-/.test(text);
+        const amount = Number(text.replace(/[^\d.]/g, ''));
+        return isNaN(amount) ? undefined : (negative ? -amount : amount);
+      }
+      case 'boolean':
+        if (detected !== 'boolean') return undefined;
+        return typeof value === 'boolean' ? value : /^(true|yes|y)$/i.test(text);
+      case 'date':
+      case 'datetime': {
+        if (value instanceof Date) {
+          return type === 'date' ? this.formatDate(value) : value.toISOString();
+        }
+        const date = this.parseDate(text, dayFirst);
+        if (date) return type === 'date' ? this.formatDate(date) : date.toISOString();
+        const dateTime = this.parseDateTime(text, dayFirst);
+        if (dateTime) return type === 'date' ? this.formatDate(dateTime) : dateTime.toISOString();
+        return undefined;
+      }
+      case 'duration':
+        return this.parseDuration(text, true) ?? undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Parse a calendar date with no time part. Slash dates are read as
+   * day/month/year with `dayFirst`, otherwise month/day/year.
+   */
+  private static parseDate(text: string, dayFirst: boolean): Date | null {
+    let match = text.match(PATTERNS.isoDate);
+    if (match) return this.buildDate(+match[1], +match[2], +match[3]);
+
+    match = text.match(PATTERNS.slashDate);
+    if (match) {
+      const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+      const [first, second] = [+match[1], +match[2]];
+      return dayFirst
+        ? this.buildDate(year, second, first)
+        : this.buildDate(year, first, second);
+    }
+
+    if (PATTERNS.namedDate.test(text)) {
+      const parsed = new Date(text.replace(/(\d)(st|nd|rd|th)/gi, '$1'));
+      if (!isNaN(parsed.getTime())) {
+        return this.buildDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+      }
+    }
+    return null;
+  }
+
+  private static parseDateTime(text: string, dayFirst: boolean): Date | null {
+    const slash = text.match(PATTERNS.slashDateTime);
+    if (slash) {
+      const year = slash[3].length === 2 ? 2000 + +slash[3] : +slash[3];
+      const [month, day] = dayFirst ? [+slash[2], +slash[1]] : [+slash[1], +slash[2]];
+      const date = this.buildDate(year, month, day);
+      let hours = +slash[4];
+      if (!date || hours > 23 || +slash[5] > 59) return null;
+      if (slash[8]) hours = (hours % 12) + (slash[8].toLowerCase() === 'pm' ? 12 : 0);
+      date.setHours(hours, +slash[5], slash[7] ? +slash[7] : 0);
+      return date;
+    }
+    if (!PATTERNS.isoDateTime.test(text)) return null;
+    const parsed = new Date(text.replace(' ', 'T').replace(/T(\d):/, 'T0$1:'));
+    if (!isNaN(parsed.getTime())) return parsed;
+    const fallback = new Date(text);
+    return isNaN(fallback.getTime()) ? null : fallback;
+  }
+
+  /**
+   * Duration in seconds from "1:23:45", "PT1H30M", "1h 30min" or, with
+   * `shortClock`, "45:10" (minutes and seconds).
+   */
+  private static parseDuration(text: string, shortClock: boolean): number | null {
+    let match = text.match(PATTERNS.clockDuration);
+    if (match) return +match[1] * 3600 + +match[2] * 60 + +match[3];
+
+    match = shortClock ? text.match(PATTERNS.shortClockDuration) : null;
+    if (match) return +match[1] * 60 + +match[2];
+
+    match = text.match(PATTERNS.isoDuration);
+    if (match) {
+      const part = (unit: string) => {
+        const found = text.match(new RegExp(`(\\d+(\\.\\d+)?)${unit}`, 'i'));
+        return found ? parseFloat(found[1]) : 0;
+      };
+      return part('H') * 3600 + part('M') * 60 + part('S');
+    }
+
+    if (PATTERNS.unitDuration.test(text)) {
+      let seconds = 0;
+      const units = text.matchAll(/(\d+(\.\d+)?)\s*([a-z]+)/gi);
+      for (const [, amount, , unit] of units) {
+        const lower = unit.toLowerCase();
+        const factor = lower.startsWith('h') ? 3600 : lower.startsWith('m') ? 60 : 1;
+        seconds += parseFloat(amount) * factor;
+      }
+      return seconds;
+    }
+    return null;
+  }
+
+  private static buildDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(year, month - 1, day);
+    const valid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+    return valid ? date : null;
+  }
+
+  private static formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private static sampleRows<T>(data: T[], sampleSize: number): T[] {
+    if (data.length <= sampleSize) return data;
+    const step = data.length / sampleSize;
+    return Array.from({ length: sampleSize }, (_, i) => data[Math.floor(i * step)]);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
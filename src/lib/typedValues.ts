@@ -0,0 +1,54 @@
+import { Database } from 'sqlite';
+import { jsonPath } from './queryBuilder';
+
+// Column types (as stored in FileMetadata.columnTypes) that are copied into
+// the data_values side table for SQL aggregates and time-series lookups
+export const NUMERIC_COLUMN_TYPES = ['number', 'integer', 'float', 'currency', 'percentage', 'duration'];
+export const DATE_COLUMN_TYPES = ['date', 'datetime'];
+
+export function isNumericType(type: string | undefined): boolean {
+  return !!type && NUMERIC_COLUMN_TYPES.includes(type);
+}
+
+export function isDateType(type: string | undefined): boolean {
+  return !!type && DATE_COLUMN_TYPES.includes(type);
+}
+
+/**
+ * Copy the numeric and date cells of a file's current rows into data_values.
+ * Pass `version` to only materialize rows introduced by that version.
+ * Cells that do not hold a JSON number / parseable date are skipped.
+ */
+export async function materializeTypedValues(
+  db: Database,
+  fileId: string,
+  columnTypes: Record<string, string>,
+  version?: number
+) {
+  const versionFilter = version === undefined ? '' : 'AND de.versionFrom = ?';
+  const versionParams = version === undefined ? [] : [version];
+
+  for (const [column, type] of Object.entries(columnTypes)) {
+    const path = jsonPath(column);
+
+    if (isNumericType(type)) {
+      await db.run(
+        `INSERT INTO data_values (entryId, fileId, rowIndex, "column", num_value)
+         SELECT de.id, de.fileId, de.rowIndex, ?, json_extract(de.data, ?)
+         FROM data_entries de
+         WHERE de.fileId = ? AND de.versionTo IS NULL ${versionFilter}
+           AND json_type(de.data, ?) IN ('integer', 'real')`,
+        [column, path, fileId, ...versionParams, path]
+      );
+    } else if (isDateType(type)) {
+      await db.run(
+        `INSERT INTO data_values (entryId, fileId, rowIndex, "column", date_value)
+         SELECT de.id, de.fileId, de.rowIndex, ?, datetime(json_extract(de.data, ?))
+         FROM data_entries de
+         WHERE de.fileId = ? AND de.versionTo IS NULL ${versionFilter}
+           AND datetime(json_extract(de.data, ?)) IS NOT NULL`,
+        [column, path, fileId, ...versionParams, path]
+      );
+    }
+  }
+}
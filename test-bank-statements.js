@@ -0,0 +1,85 @@
+// Test script for bank statement imports (run with: npx tsx test-bank-statements.js)
+const assert = require('node:assert/strict');
+const { BankStatementImporter } = require('./src/lib/bankStatementImporter.ts');
+
+// OFX 1.x: SGML with unclosed value elements
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><BANKID>123<ACCTID>0001234</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240105120000.000[-5:EST]<TRNAMT>-42.50<FITID>A1<NAME>Grocer &amp; Co<MEMO>Card 1234</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240106<TRNAMT>1,500.00<FITID>A2<NAME>Payroll</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<TRNAMT>-1.00<FITID>A3</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+// OFX 2.x: XML, with a credit card statement and a payee aggregate
+const OFX_XML = `<?xml version="1.0"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CCACCTFROM><ACCTID>9999</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><DTPOSTED>20240201</DTPOSTED><TRNAMT>-9.99</TRNAMT><PAYEE><NAME>Streaming</NAME></PAYEE></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>
+`;
+
+function qif(...transactions) {
+  return ['!Account', 'NChecking', '^', '!Type:Bank', ...transactions.flatMap(lines => [...lines, '^'])].join('\n');
+}
+
+async function testBankStatements() {
+  console.log('Testing bank statement imports...\n');
+
+  const warnings = [];
+  const sgml = BankStatementImporter.parseOfx(OFX_SGML, warnings).data;
+  assert.deepEqual(sgml.map(row => [row.date, row.payee, row.amount, row.direction, row.account, row.fitid]), [
+    ['2024-01-05', 'Grocer & Co', -42.5, 'debit', '0001234', 'A1'],
+    ['2024-01-06', 'Payroll', 1500, 'credit', '0001234', 'A2']
+  ]);
+  assert.equal(sgml[0].memo, 'Card 1234');
+  assert.deepEqual(warnings, ['Skipped 1 transactions without a valid date or amount']);
+  console.log('✓ OFX 1.x statement');
+
+  const [card] = BankStatementImporter.parseOfx(OFX_XML, []).data;
+  assert.equal(card.account, '9999');
+  assert.equal(card.payee, 'Streaming');
+  assert.match(card.fitid, /^ofx-[0-9a-f]{20}$/);
+  console.log('✓ OFX 2.x card statement without FITIDs');
+
+  assert.throws(() => BankStatementImporter.parseOfx('not ofx', []), /No <OFX> element/);
+  console.log('✓ Files without OFX are rejected');
+
+  const us = BankStatementImporter.parseQif(qif(['D01/05/2024', 'T-42.50', 'PGrocer'], ['D1/ 6\'24', 'T1,500.00', 'PPayroll']), []).data;
+  assert.deepEqual(us.map(row => [row.date, row.amount, row.account]), [
+    ['2024-01-05', -42.5, 'Checking'],
+    ['2024-01-06', 1500, 'Checking']
+  ]);
+  console.log('✓ QIF with month-first dates');
+
+  // One date that cannot be month-first makes the whole file day-first
+  const eu = BankStatementImporter.parseQif(qif(['D05/01/2024', 'T-1.234,50'], ['D13/01/2024', 'T20,00']), []).data;
+  assert.deepEqual(eu.map(row => [row.date, row.amount]), [['2024-01-05', -1234.5], ['2024-01-13', 20]]);
+  console.log('✓ QIF with day-first dates and decimal commas');
+
+  const twice = BankStatementImporter.parseQif(qif(['D01/05/2024', 'T-3.00', 'PCoffee'], ['D01/05/2024', 'T-3.00', 'PCoffee']), []).data;
+  assert.notEqual(twice[0].fitid, twice[1].fitid);
+  const again = BankStatementImporter.parseQif(qif(['D01/05/2024', 'T-3.00', 'PCoffee'], ['D01/05/2024', 'T-3.00', 'PCoffee']), []).data;
+  assert.deepEqual(again.map(row => row.fitid), twice.map(row => row.fitid));
+  console.log('✓ QIF ids are stable and tell identical transactions apart');
+
+  const investments = ['!Type:Invst', 'D01/05/2024', 'T100.00', '^'].join('\n');
+  assert.throws(() => BankStatementImporter.parseQif(investments, []), /No bank, cash or credit card transactions/);
+  console.log('✓ Investment sections are skipped');
+
+  console.log('\nAll bank statement tests passed');
+}
+
+testBankStatements().catch(error => {
+  console.error('Bank statement test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+// Test script for iCalendar imports (run with: npx tsx test-calendar-import.js)
+const assert = require('node:assert/strict');
+const { CalendarImporter } = require('./src/lib/calendarImporter.ts');
+
+// Imports are expanded relative to this time, so results do not depend on today
+const NOW = Date.UTC(2024, 0, 1);
+
+function calendar(...events) {
+  const body = events.map(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n')).join('\r\n');
+  return `BEGIN:VCALENDAR\r\nVERSION:2.0\r\nX-WR-TIMEZONE:Europe/Berlin\r\n${body}\r\nEND:VCALENDAR\r\n`;
+}
+
+function parse(text) {
+  const warnings = [];
+  const table = CalendarImporter.parse(text, warnings, NOW);
+  return { rows: table.data, warnings };
+}
+
+async function testCalendarImport() {
+  console.log('Testing calendar import...\n');
+
+  const { rows: [standup] } = parse(calendar([
+    'UID:1', 'SUMMARY:Standup\\, team', 'DTSTART;TZID=America/New_York:20240105T090000', 'DTEND;TZID=America/New_York:20240105T093000',
+    'CATEGORIES:Work,Meetings', 'ATTENDEE:mailto:a@example.com', 'ATTENDEE:mailto:b@example.com',
+    'BEGIN:VALARM', 'ACTION:DISPLAY', 'SUMMARY:Reminder', 'END:VALARM'
+  ]));
+  assert.equal(standup.title, 'Standup, team');
+  assert.equal(standup.start, '2024-01-05T14:00:00.000Z');
+  assert.equal(standup.start_time, '09:00');
+  assert.equal(standup.duration_min, 30);
+  assert.equal(standup.category, 'Work, Meetings');
+  assert.equal(standup.attendees, 2);
+  assert.equal(standup.time_of_day, 'morning');
+  console.log('✓ Event in its own time zone');
+
+  // UTC times are shown in the calendar's zone
+  const { rows: [utc] } = parse(calendar(['UID:2', 'SUMMARY:Call', 'DTSTART:20240105T170000Z', 'DURATION:PT1H']));
+  assert.equal(utc.start_time, '18:00');
+  assert.equal(utc.duration_min, 60);
+  assert.equal(utc.time_of_day, 'evening');
+  console.log('✓ UTC event shown in the calendar zone');
+
+  const { rows: [holiday] } = parse(calendar(['UID:3', 'SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20240105']));
+  assert.equal(holiday.all_day, true);
+  assert.equal(holiday.date, '2024-01-05');
+  assert.equal(holiday.duration_min, 24 * 60);
+  console.log('✓ All-day event');
+
+  // Weekly on Mondays for 4 weeks, one skipped and one moved
+  const { rows: weekly } = parse(calendar(
+    ['UID:4', 'SUMMARY:Gym', 'DTSTART;TZID=Europe/Berlin:20240101T070000', 'DTEND;TZID=Europe/Berlin:20240101T080000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4', 'EXDATE;TZID=Europe/Berlin:20240108T070000'],
+    ['UID:4', 'SUMMARY:Gym (late)', 'RECURRENCE-ID;TZID=Europe/Berlin:20240115T070000',
+      'DTSTART;TZID=Europe/Berlin:20240115T190000', 'DTEND;TZID=Europe/Berlin:20240115T200000']
+  ));
+  assert.deepEqual(weekly.map(row => [row.date, row.start_time, row.title]), [
+    ['2024-01-01', '07:00', 'Gym'],
+    ['2024-01-15', '19:00', 'Gym (late)'],
+    ['2024-01-22', '07:00', 'Gym']
+  ]);
+  assert.ok(weekly.every(row => row.recurring));
+  console.log('✓ Recurring event with an EXDATE and an edited occurrence');
+
+  // Rules without an end stop three months after the import
+  const { rows: daily } = parse(calendar(['UID:5', 'SUMMARY:Walk', 'DTSTART:20240101T120000Z', 'RRULE:FREQ=DAILY']));
+  assert.equal(daily.length, 90);
+  assert.equal(daily[daily.length - 1].date, '2024-03-30');
+  console.log('✓ Open-ended rules are cut off');
+
+  const { rows: kept, warnings } = parse(calendar(
+    ['UID:6', 'SUMMARY:Kept', 'DTSTART:20240105T100000Z'],
+    ['UID:7', 'SUMMARY:Dropped', 'DTSTART:20240105T110000Z', 'STATUS:CANCELLED']
+  ));
+  assert.deepEqual(kept.map(row => row.title), ['Kept']);
+  assert.deepEqual(warnings, ['Skipped 1 cancelled events']);
+  console.log('✓ Cancelled events are left out');
+
+  assert.throws(() => parse('BEGIN:VCARD\r\nEND:VCARD\r\n'), /No VCALENDAR/);
+  console.log('✓ Files without a calendar are rejected');
+
+  console.log('\nAll calendar import tests passed');
+}
+
+testCalendarImport().catch(error => {
+  console.error('Calendar import test failed:', error);
+  process.exit(1);
+});
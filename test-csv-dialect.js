@@ -0,0 +1,68 @@
+// Test script for CSV dialect detection (run with: npx tsx test-csv-dialect.js)
+const assert = require('node:assert/strict');
+const Papa = require('papaparse');
+const { CsvDialectDetector } = require('./src/lib/csvDialect.ts');
+
+function detect(text, overrides) {
+  return CsvDialectDetector.detect(Buffer.from(text), overrides);
+}
+
+async function testCsvDialect() {
+  console.log('Testing CSV dialect detection...\n');
+
+  assert.equal(detect('a,b,c\n1,2,3\n4,5,6\n').delimiter, ',');
+  assert.equal(detect('a;b;c\n1;2;3\n4;5;6\n').delimiter, ';');
+  assert.equal(detect('a\tb\tc\n1\t2\t3\n').delimiter, '\t');
+  assert.equal(detect('a|b|c\n1|2|3\n').delimiter, '|');
+  // Commas inside quoted fields do not count
+  assert.equal(detect('name;note\n"Smith, J";"a, b, c"\n"Doe, A";"d, e"\n').delimiter, ';');
+  console.log('✓ Delimiters');
+
+  assert.equal(detect("a,b\n'x, y',1\n'z',2\n").quoteChar, "'");
+  assert.equal(detect('a,b\n"x, y",1\n').quoteChar, '"');
+  console.log('✓ Quote characters');
+
+  assert.equal(detect('item;amount\nrent;1.234,56\nfood;7,5\n').decimalSeparator, ',');
+  assert.equal(detect('item,amount\nrent,1234.56\nfood,7.5\n').decimalSeparator, '.');
+  // "1,234" and "1.234" could be either; the rest of the file decides
+  assert.equal(detect('item;amount\nrent;1.234\nfood;7,5\n').decimalSeparator, ',');
+  console.log('✓ Decimal separators');
+
+  assert.equal(CsvDialectDetector.detectEncoding(Buffer.from('\uFEFFa,b\n', 'utf-8')), 'utf-8');
+  assert.equal(CsvDialectDetector.detectEncoding(Buffer.from('\uFEFFa,b\n', 'utf16le')), 'utf-16le');
+  assert.equal(CsvDialectDetector.detectEncoding(Buffer.from('a,b\n1,2\n', 'utf16le')), 'utf-16le');
+  assert.equal(CsvDialectDetector.detectEncoding(Buffer.from('café,crème\n', 'latin1')), 'windows-1252');
+  assert.equal(CsvDialectDetector.decode(Buffer.from([0x80, 0x31, 0x30]), 'windows-1252'), '€10');
+  assert.equal(CsvDialectDetector.decode(Buffer.from('\uFEFFa,b', 'utf-8'), 'utf-8'), 'a,b');
+  console.log('✓ Encodings');
+
+  // A character split across chunks is decoded once whole
+  const euro = Buffer.from('€', 'utf-8');
+  const decode = CsvDialectDetector.decoder('utf-8');
+  assert.equal(decode(euro.subarray(0, 1)) + decode(euro.subarray(1)) + decode(), '€');
+  console.log('✓ Streaming decoder');
+
+  const overridden = detect('a;b\n1,5;2\n', { delimiter: ',', decimalSeparator: '.' });
+  assert.equal(overridden.delimiter, ',');
+  assert.equal(overridden.decimalSeparator, '.');
+  assert.equal(overridden.quoteChar, '"');
+  console.log('✓ Overrides win over detection');
+
+  const config = CsvDialectDetector.parseConfig(detect('item;amount\nrent;1.234,56\n'));
+  const rows = Papa.parse('rent;1.234,56;x,y\n', config).data;
+  assert.deepEqual(rows[0], ['rent', '1234.56', 'x,y']);
+  console.log('✓ Decimal commas are rewritten when parsing');
+
+  assert.deepEqual(CsvDialectDetector.validate({ delimiter: ';', encoding: 'utf-8' }), []);
+  assert.equal(CsvDialectDetector.validate({ delimiter: ':' }).length, 1);
+  assert.deepEqual(CsvDialectDetector.validate({ separator: ';' }), ['Unknown dialect setting separator']);
+  assert.deepEqual(CsvDialectDetector.validate('x'), ['dialect must be an object']);
+  console.log('✓ Override validation');
+
+  console.log('\nAll CSV dialect tests passed');
+}
+
+testCsvDialect().catch(error => {
+  console.error('CSV dialect test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+// Test script for CSV parsing (run with: npx tsx test-csv-parsing.js)
+const assert = require('node:assert/strict');
+const { FileParser } = require('./src/lib/fileParser.ts');
+
+async function parse(text, options = {}) {
+  const result = await FileParser.parse(Buffer.from(text), 'test.csv', options);
+  return result.tables[0];
+}
+
+async function testCsvParsing() {
+  console.log('Testing CSV parsing...\n');
+
+  // The first data row follows the header directly
+  const twoRows = await parse('a,b\n1,2\n3,4\n');
+  assert.deepEqual(twoRows.columns, ['a', 'b']);
+  assert.equal(twoRows.data.length, 2);
+  assert.equal(String(twoRows.data[0].a), '1');
+  console.log('✓ Two-row CSV keeps its first row');
+
+  const crlf = await parse('name,amount\r\nrent,1200\r\ngroceries,85.5\r\n');
+  assert.deepEqual(crlf.data.map(row => row.name), ['rent', 'groceries']);
+  console.log('✓ CRLF line endings');
+
+  const singleColumn = await parse('a\n1\n2\n');
+  assert.equal(singleColumn.data.length, 2);
+  console.log('✓ Single-column CSV');
+
+  const utf16 = await FileParser.parse(Buffer.from('\uFEFFa;b\n1;2\n', 'utf16le'), 'test.csv');
+  assert.equal(utf16.dialect.encoding, 'utf-16le');
+  assert.equal(utf16.dialect.delimiter, ';');
+  assert.equal(utf16.tables[0].data.length, 1);
+  console.log('✓ UTF-16 with a semicolon delimiter');
+
+  // Rejected rows keep their line in the file
+  const tolerant = await parse('a,b\n1,2\n3\n\n4,5,6\n7,8\n', { tolerant: true });
+  assert.equal(tolerant.data.length, 2);
+  assert.deepEqual(tolerant.rowErrors.map(error => [error.line, error.code, error.raw]), [
+    [3, 'TooFewFields', '3'],
+    [5, 'TooManyFields', '4,5,6']
+  ]);
+  console.log('✓ Tolerant mode reports rejected rows by line');
+
+  await assert.rejects(parse('a,b\n1,2\n3\n'), /line 3: Too few fields/);
+  console.log('✓ Strict mode fails on the first bad rows');
+
+  const titled = await parse('Export from bank\na,b\n1,2\n3,4\n');
+  assert.equal(titled.headerRow, 2);
+  assert.equal(titled.data.length, 2);
+  console.log('✓ Title line above the header is skipped');
+
+  console.log('\nAll CSV parsing tests passed');
+}
+
+testCsvParsing().catch(error => {
+  console.error('CSV parsing test failed:', error);
+  process.exit(1);
+});
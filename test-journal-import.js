@@ -0,0 +1,56 @@
+// Test script for journal imports (run with: npx tsx test-journal-import.js)
+const assert = require('node:assert/strict');
+const { JournalImporter } = require('./src/lib/journalImporter.ts');
+
+function entries(text, fileName) {
+  return JournalImporter.split(text, fileName).map(entry => [entry.date, entry.title, entry.text]);
+}
+
+async function testJournalImport() {
+  console.log('Testing journal import...\n');
+
+  assert.deepEqual(entries('# My journal\n\n## 2024-01-05\nRan 5km.\n\n## Saturday, January 6, 2024\nRested.\n'), [
+    ['2024-01-05', '2024-01-05', 'Ran 5km.'],
+    ['2024-01-06', 'Saturday, January 6, 2024', 'Rested.']
+  ]);
+  console.log('✓ Dated headings start entries; a title heading alone is not one');
+
+  assert.deepEqual(entries('**5 Jan 2024** - back at work\nLong day.\n2024-01-06: ran 5km along the river and then stretched for a long while afterwards\n'), [
+    ['2024-01-05', 'back at work', 'back at work\nLong day.'],
+    ['2024-01-06', '', 'ran 5km along the river and then stretched for a long while afterwards']
+  ]);
+  assert.deepEqual(entries('2024-01-05 was a good day.\n', 'notes.txt'), [[null, '', '2024-01-05 was a good day.']]);
+  console.log('✓ Date lines start entries, sentences do not');
+
+  // Text after a separator keeps the date of the entry it is in
+  assert.deepEqual(entries('# 2024-01-05\nMorning run\n\n---\n\nEvening notes\n\n# 2024-01-06\nRest\n'), [
+    ['2024-01-05', '2024-01-05', 'Morning run'],
+    ['2024-01-05', '', 'Evening notes'],
+    ['2024-01-06', '2024-01-06', 'Rest']
+  ]);
+  assert.deepEqual(entries('First thought\n***\nSecond thought\n', 'notes.md'), [
+    [null, '', 'First thought'],
+    [null, '', 'Second thought']
+  ]);
+  console.log('✓ Separators split entries');
+
+  // One date that cannot be month-first makes the whole file day-first
+  assert.deepEqual(entries('05/01/2024\nA\n13/01/2024\nB\n').map(([date]) => date), ['2024-01-05', '2024-01-13']);
+  assert.deepEqual(entries('01/05/2024\nA\n01/13/2024\nB\n').map(([date]) => date), ['2024-01-05', '2024-01-13']);
+  console.log('✓ Numeric dates are read in the file\'s order');
+
+  assert.deepEqual(entries('---\ndate: 2024-03-01\ntags: [run]\n---\nEasy run.\n', 'note.md'), [['2024-03-01', '', 'Easy run.']]);
+  assert.deepEqual(entries('Easy run.\n', '2024-03-02.md'), [['2024-03-02', '', 'Easy run.']]);
+  console.log('✓ Daily notes are dated by front matter or file name');
+
+  assert.equal(JournalImporter.isJournal('## 2024-01-05\nRan.\n'), true);
+  assert.equal(JournalImporter.isJournal('Shopping list\n- eggs\n', 'list.txt'), false);
+  console.log('✓ Journals are told apart from other text');
+
+  console.log('\nAll journal import tests passed');
+}
+
+testJournalImport().catch(error => {
+  console.error('Journal import test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+// Test script for dataset queries (run with: npx tsx test-query.js)
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { v4: uuidv4 } = require('uuid');
+
+// Datasets are written to data.db in the working directory
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'query-')));
+
+const { databaseService } = require('./src/lib/database.ts');
+const { QueryBuilder, jsonPath } = require('./src/lib/queryBuilder.ts');
+
+async function testQuery() {
+  console.log('Testing dataset queries...\n');
+
+  const fileId = uuidv4();
+  const columns = ['item', 'amount', 'size "EU"', 'folder\\name', 'unit.price'];
+  await databaseService.saveFileData(fileId, 'sales.csv', 100, [
+    { item: 'shirt', amount: 20, 'size "EU"': 40, 'folder\\name': 'a', 'unit.price': 5 },
+    { item: 'shoes', amount: 80, 'size "EU"': 44, 'folder\\name': 'b', 'unit.price': 40 },
+    { item: 'socks', amount: 5, 'size "EU"': 42, 'folder\\name': 'a', 'unit.price': 1 }
+  ], columns, { item: 'string', amount: 'integer', 'size "EU"': 'integer', 'folder\\name': 'string', 'unit.price': 'integer' });
+
+  const { query, errors } = QueryBuilder.validate({
+    select: ['item'],
+    where: [{ column: 'fileId', op: '=', value: fileId }, { column: 'amount', op: '>=', value: 20 }],
+    orderBy: [{ column: 'amount', direction: 'desc' }]
+  });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(await databaseService.queryData(query), [{ item: 'shoes' }, { item: 'shirt' }]);
+  console.log('✓ Filters and sorting');
+
+  const totals = await databaseService.queryData({
+    where: [{ column: 'fileId', op: '=', value: fileId }],
+    groupBy: ['folder\\name'],
+    aggregates: [{ fn: 'sum', column: 'amount', as: 'total' }],
+    orderBy: [{ column: 'folder\\name' }]
+  });
+  assert.deepEqual(totals, [{ 'folder\\name': 'a', total: 25 }, { 'folder\\name': 'b', total: 80 }]);
+  console.log('✓ Grouping by a column with a backslash');
+
+  // Column names with quotes and dots resolve instead of reading as NULL
+  const sized = await databaseService.queryData({
+    select: ['item', 'size "EU"', 'unit.price'],
+    where: [{ column: 'fileId', op: '=', value: fileId }, { column: 'size "EU"', op: '>', value: 41 }],
+    orderBy: [{ column: 'size "EU"' }]
+  });
+  assert.deepEqual(sized, [
+    { item: 'socks', 'size "EU"': 42, 'unit.price': 1 },
+    { item: 'shoes', 'size "EU"': 44, 'unit.price': 40 }
+  ]);
+  const page = await databaseService.getFileRows(fileId, { sort: 'size "EU"', dir: 'desc' });
+  assert.deepEqual(page.rows.map(row => row.item), ['shoes', 'socks', 'shirt']);
+  assert.throws(() => jsonPath('a "b".c'), /cannot be read/);
+  console.log('✓ Column names with quotes');
+
+  console.log('\nAll query tests passed');
+}
+
+testQuery().catch(error => {
+  console.error('Query test failed:', error);
+  process.exit(1);
+});
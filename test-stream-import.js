@@ -0,0 +1,101 @@
+// Test script for streamed uploads (run with: npx tsx test-stream-import.js)
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const JSZip = require('jszip');
+const { v4: uuidv4 } = require('uuid');
+
+// Imports are written to data.db in the working directory
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'stream-import-')));
+
+const { databaseService } = require('./src/lib/database.ts');
+const { FileParser } = require('./src/lib/fileParser.ts');
+const { CsvStreamImporter } = require('./src/lib/csvStreamImporter.ts');
+const { ExportStreamImporter } = require('./src/lib/exportStreamImporter.ts');
+
+// The upload arrives in small pieces, so rows and line breaks are split across chunks
+function body(buffer, chunkSize) {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= buffer.length) return controller.close();
+      controller.enqueue(new Uint8Array(buffer.subarray(offset, offset + chunkSize)));
+      offset += chunkSize;
+    }
+  });
+}
+
+async function streamCsv(text, { tolerant = false, chunkSize = 7 } = {}) {
+  const buffer = Buffer.from(text);
+  const job = await databaseService.createImportJob(uuidv4(), 'upload.csv', buffer.length, null, tolerant);
+  return CsvStreamImporter.ingest(body(buffer, chunkSize), job);
+}
+
+async function streamExport(fileName, buffer) {
+  const job = await databaseService.createImportJob(uuidv4(), fileName, buffer.length);
+  return ExportStreamImporter.ingest(body(buffer, 1024), job);
+}
+
+function healthXml(...steps) {
+  const records = steps.map(([start, value]) =>
+    `<Record type="HKQuantityTypeIdentifierStepCount" sourceName="Watch" unit="count" startDate="${start} +0000" endDate="${start} +0000" value="${value}"/>`
+  );
+  return Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>\n<HealthData locale="en_US">\n${records.join('\n')}\n</HealthData>\n`);
+}
+
+async function takeout(...days) {
+  const zip = new JSZip();
+  days.forEach(([day, steps]) => {
+    zip.file(`Takeout/Fit/Daily activity metrics/${day}.csv`, `Start time,End time,Step count\n00:00:00.000+00:00,00:15:00.000+00:00,${steps}\n`);
+  });
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+async function testStreamImport() {
+  console.log('Testing streamed imports...\n');
+
+  // A quoted field over two lines, a blank line and a short row
+  const csv = 'name,note,amount\nA,"two\nlines",1\n\nB,oops\nC,"x",3\n';
+  const { dataset } = await streamCsv(csv, { tolerant: true });
+  const { rows } = await databaseService.getFileRows(dataset.id);
+  assert.deepEqual(rows.map(row => row.name), ['A', 'C']);
+  assert.equal(rows[0].note, 'two\nlines');
+  const { errors } = await databaseService.getRowErrors(dataset.id, dataset.currentVersion);
+  assert.deepEqual(errors.map(error => [error.line, error.code, error.raw]), [[5, 'TooFewFields', 'B,oops']]);
+  const buffered = (await FileParser.parse(Buffer.from(csv), 'upload.csv', { tolerant: true })).tables[0].rowErrors;
+  assert.deepEqual(errors.map(error => error.line), buffered.map(error => error.line));
+  console.log('✓ Rejected rows are numbered by file line, as for buffered uploads');
+
+  await assert.rejects(streamCsv(csv), /line 5: Too few fields/);
+  console.log('✓ Strict imports stop at the first bad row');
+
+  // Every "\r\n" is split across chunks
+  const windows = await streamCsv('a,b\r\n1,"x\r\ny"\r\n2,z\r\n', { chunkSize: 1 });
+  const split = await databaseService.getFileRows(windows.dataset.id);
+  assert.deepEqual(split.rows.map(row => [row.a, row.b]), [[1, 'x\r\ny'], [2, 'z']]);
+  console.log('✓ Line breaks split across chunks');
+
+  const first = await streamExport('export.xml', healthXml(['2024-01-05 08:00:00', 500]));
+  assert.equal(first.dataset.numRows, 1);
+  assert.equal(first.dataset.source, 'apple_health');
+  const overlapping = await streamExport('export.xml', healthXml(['2024-01-05 08:00:00', 500], ['2024-01-06 08:00:00', 700]));
+  assert.equal(overlapping.dataset.numRows, 1);
+  assert.deepEqual(overlapping.warnings, ['1 rows were imported before and were skipped']);
+  await assert.rejects(streamExport('export.xml', healthXml(['2024-01-06 08:00:00', 700])), /imported before/);
+  console.log('✓ Re-imported Apple Health exports only add new rows');
+
+  const fit = await streamExport('takeout.zip', await takeout(['2024-01-05', 100]));
+  assert.equal(fit.dataset.source, 'google_fit');
+  const more = await streamExport('takeout.zip', await takeout(['2024-01-05', 100], ['2024-01-06', 200]));
+  assert.equal(more.dataset.numRows, 1);
+  assert.deepEqual(more.warnings, ['1 rows were imported before and were skipped']);
+  console.log('✓ Re-imported Takeout archives only add new rows');
+
+  console.log('\nAll streamed import tests passed');
+}
+
+testStreamImport().catch(error => {
+  console.error('Streamed import test failed:', error);
+  process.exit(1);
+});
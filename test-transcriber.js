@@ -0,0 +1,100 @@
+// Test script for voice note transcription (run with: npx tsx test-transcriber.js)
+const assert = require('node:assert/strict');
+const { FakeTranscriber, WhisperCliTranscriber, getTranscriber } = require('./src/lib/transcriber.ts');
+
+// A mono 16 kHz, 16-bit PCM WAV file holding `seconds` of silence
+function wav(seconds, extraChunk) {
+  const data = Buffer.alloc(seconds * 16000 * 2);
+  const fmt = Buffer.alloc(24);
+  fmt.write('fmt ', 0, 'ascii');
+  fmt.writeUInt32LE(16, 4);
+  fmt.writeUInt16LE(1, 8);        // PCM
+  fmt.writeUInt16LE(1, 10);       // Mono
+  fmt.writeUInt32LE(16000, 12);   // Sample rate
+  fmt.writeUInt32LE(32000, 16);   // Byte rate
+  fmt.writeUInt16LE(2, 20);       // Block align
+  fmt.writeUInt16LE(16, 22);      // Bits per sample
+  const header = Buffer.alloc(8);
+  header.write('data', 0, 'ascii');
+  header.writeUInt32LE(data.length, 4);
+  const body = Buffer.concat([fmt, ...(extraChunk ? [extraChunk] : []), header, data]);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(body.length + 4, 4);
+  riff.write('WAVE', 8, 'ascii');
+  return Buffer.concat([riff, body]);
+}
+
+async function testTranscriber() {
+  console.log('Testing transcription...\n');
+
+  const fake = await new FakeTranscriber('Ran five kilometres today').transcribe(Buffer.alloc(0), 'note.webm');
+  assert.equal(fake.text, 'Ran five kilometres today');
+  assert.deepEqual(fake.words.map(word => [word.word, word.start]), [['Ran', 0], ['five', 0.5], ['kilometres', 1], ['today', 1.5]]);
+  assert.equal(fake.duration, 2);
+  console.log('✓ Fake transcriber');
+
+  const output = {
+    result: { language: 'en' },
+    transcription: [
+      {
+        text: ' Ran five kilometres.',
+        offsets: { from: 0, to: 2400 },
+        tokens: [
+          { text: '[_BEG_]', offsets: { from: 0, to: 0 } },
+          { text: ' Ran', offsets: { from: 0, to: 400 } },
+          { text: ' five', offsets: { from: 400, to: 800 } },
+          { text: ' kilo', offsets: { from: 800, to: 1400 } },
+          { text: 'metres', offsets: { from: 1400, to: 2000 } },
+          { text: '.', offsets: { from: 2000, to: 2100 } },
+          { text: '[_TT_120]', offsets: { from: 2400, to: 2400 } }
+        ]
+      },
+      {
+        text: ' Felt good.',
+        offsets: { from: 2400, to: 3600 },
+        tokens: [
+          { text: ' Felt', offsets: { from: 2400, to: 2900 } },
+          { text: ' good', offsets: { from: 2900, to: 3400 } },
+          { text: '.', offsets: { from: 3400, to: 3500 } }
+        ]
+      }
+    ]
+  };
+  const parsed = WhisperCliTranscriber.parseOutput(output);
+  assert.equal(parsed.text, 'Ran five kilometres. Felt good.');
+  assert.deepEqual(parsed.words, [
+    { word: 'Ran', start: 0, end: 0.4 },
+    { word: 'five', start: 0.4, end: 0.8 },
+    { word: 'kilometres.', start: 0.8, end: 2.1 },
+    { word: 'Felt', start: 2.4, end: 2.9 },
+    { word: 'good.', start: 2.9, end: 3.5 }
+  ]);
+  assert.equal(parsed.duration, 3.6);
+  assert.equal(parsed.language, 'en');
+  assert.deepEqual(WhisperCliTranscriber.parseOutput({}), { text: '', duration: null, words: [], language: null });
+  console.log('✓ whisper.cpp output');
+
+  assert.equal(WhisperCliTranscriber.wavDuration(wav(3)), 3);
+  // Chunks such as LIST may come before the audio
+  const list = Buffer.concat([Buffer.from('LIST'), Buffer.from([3, 0, 0, 0]), Buffer.from('abc\0')]);
+  assert.equal(WhisperCliTranscriber.wavDuration(wav(2, list)), 2);
+  assert.equal(WhisperCliTranscriber.wavDuration(Buffer.from('not a wav file')), null);
+  console.log('✓ WAV durations');
+
+  assert.equal(getTranscriber({ TRANSCRIBER: 'fake' }).name, 'fake');
+  assert.equal(getTranscriber({}).name, 'whisper.cpp');
+  assert.throws(() => getTranscriber({ TRANSCRIBER: 'other' }), /Unknown transcriber other/);
+  const missing = new WhisperCliTranscriber({
+    binary: 'whisper-cli', model: 'model.bin', ffmpeg: '/nonexistent/ffmpeg', language: 'auto', timeoutMs: 10000
+  });
+  await assert.rejects(missing.transcribe(Buffer.from('audio'), 'note.webm'), /\/nonexistent\/ffmpeg was not found/);
+  console.log('✓ Backend selection');
+
+  console.log('\nAll transcription tests passed');
+}
+
+testTranscriber().catch(error => {
+  console.error('Transcription test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+// Test script for column type inference (run with: npx tsx test-type-inference.js)
+const assert = require('node:assert/strict');
+const { TypeInference } = require('./src/lib/typeInference.ts');
+
+function infer(data) {
+  return TypeInference.inferColumnTypes(data, Object.keys(data[0])).columnTypes;
+}
+
+function normalize(data) {
+  return TypeInference.normalizeRows(data, infer(data));
+}
+
+async function testTypeInference() {
+  console.log('Testing type inference...\n');
+
+  // CSV cells arrive as text
+  const types = infer([
+    { qty: '3', price: '4.50', cost: '$1,200.00', share: '12.5%', done: 'yes', day: '2024-01-05', note: 'x' },
+    { qty: '10', price: '0.75', cost: '($35.10)', share: '3%', done: 'no', day: '2024-02-10', note: 'y' }
+  ]);
+  assert.deepEqual(types, {
+    qty: 'integer', price: 'float', cost: 'currency', share: 'percentage', done: 'boolean', day: 'date', note: 'string'
+  });
+  console.log('✓ Basic types are detected from text');
+
+  const ids = normalize([{ zip: '010', id: '12345678901234567890' }, { zip: '02139', id: '12345678901234567891' }]);
+  assert.deepEqual(ids[0], { zip: '010', id: '12345678901234567890' });
+  console.log('✓ Leading zeros and long ids stay text');
+
+  const money = normalize([{ cost: '$1,200.00' }, { cost: '($35.10)' }]);
+  assert.deepEqual(money.map(row => row.cost), [1200, -35.1]);
+  console.log('✓ Currency amounts become signed numbers');
+
+  // The order of slash dates is chosen for the whole column
+  const dayFirst = normalize([{ day: '05/02/2024' }, { day: '13/02/2024' }]);
+  assert.deepEqual(dayFirst.map(row => row.day), ['2024-02-05', '2024-02-13']);
+  const monthFirst = normalize([{ day: '02/05/2024' }, { day: '02/13/2024' }]);
+  assert.deepEqual(monthFirst.map(row => row.day), ['2024-02-05', '2024-02-13']);
+  const ambiguous = normalize([{ day: '02/05/2024' }, { day: '03/04/2024' }]);
+  assert.deepEqual(ambiguous.map(row => row.day), ['2024-02-05', '2024-03-04']);
+  console.log('✓ Slash dates are read day or month first per column');
+
+  const stamped = normalize([{ at: '13/02/2024 10:30' }, { at: '05/02/2024 8:00 pm' }]);
+  const local = stamped.map(row => new Date(row.at)).map(at => [at.getMonth() + 1, at.getDate(), at.getHours(), at.getMinutes()]);
+  assert.deepEqual(local, [[2, 13, 10, 30], [2, 5, 20, 0]]);
+  console.log('✓ Slash date-times follow the column order');
+
+  // MM:SS is a duration only in a column named as one
+  assert.deepEqual(infer([{ time: '09:15' }, { time: '17:45' }]), { time: 'string' });
+  assert.deepEqual(normalize([{ lap_time: '45:10' }, { lap_time: '1:02:03' }]).map(row => row.lap_time), [2710, 3723]);
+  assert.deepEqual(normalize([{ moving: '1:02:03' }, { moving: 'PT1H30M' }]).map(row => row.moving), [3723, 5400]);
+  console.log('✓ Clock values are durations only when the column says so');
+
+  const mixed = infer([{ v: '1' }, { v: '2' }, { v: '3' }, { v: '4' }, { v: 'n/a' }]);
+  assert.equal(mixed.v, 'integer');
+  const text = infer([{ v: '1' }, { v: 'a' }, { v: 'b' }]);
+  assert.equal(text.v, 'string');
+  console.log('✓ Columns tolerate a few stray values');
+
+  console.log('\nAll type inference tests passed');
+}
+
+testTypeInference().catch(error => {
+  console.error('Type inference test failed:', error);
+  process.exit(1);
+});